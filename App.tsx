@@ -1,32 +1,75 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Recorder from './components/Recorder';
+import FileImporter from './components/FileImporter';
+import RecordingRecoveryBanner from './components/RecordingRecoveryBanner';
+import ExportDialog from './components/ExportDialog';
 import MeetingDetail from './components/MeetingDetail';
 import SettingsModal from './components/SettingsModal';
+import UnlockKeysDialog from './components/UnlockKeysDialog';
+import RecoveryScreen from './components/RecoveryScreen';
 import ChatInterface from './components/ChatInterface';
 import WebToolView from './components/WebToolView';
-import { MeetingData, MeetingStatus, UserSettings, DEFAULT_AGENTS, DEFAULT_WEB_TOOLS, Agent, ChatMessage } from './types';
-import { processMeetingAudio } from './services/geminiService';
-import { SettingsIcon, ChatBubbleIcon, ArchiveIcon, RobotIcon, MicIcon, GlobeIcon } from './components/Icons';
+import TasksView from './components/TasksView';
+import VaultSearchBar from './components/VaultSearchBar';
+import HighlightedText from './components/HighlightedText';
+import { MeetingData, MeetingStatus, UserSettings, DEFAULT_AGENTS, DEFAULT_WEB_TOOLS, LANGUAGES, Agent, ChatMessage, ChatSession, ProcessingJob, ProcessingProgress, ActionItem, ReprocessOptions, ReportVersionSource } from './types';
+import { processRecording, transcribeRecording } from './services/processingPipeline';
+import { segmentsToText } from './services/transcriptService';
+import { createActionItems } from './services/actionItemService';
+import { withReportVersion } from './services/reportHistoryService';
+import { toMeetingFields } from './services/reportTemplateService';
+import { syncVaultIndex } from './services/vaultIndexService';
+import { getEmbedder } from './services/aiService';
+import { DEFAULT_AUTO_LOCK_MINUTES, EMPTY_API_KEYS, PassphraseKey, createPassphraseKey, decryptApiKeys, encryptApiKeys, mergeImportedSettings, toStoredSettings } from './services/keyEncryptionService';
+import { importMediaFile } from './services/importService';
+import { createJob, getJobsToStart, isJobActive, restoreJobs } from './services/processingQueue';
+import { buildSearchIndex, searchMeetings, getTagFacets, getQueryTerms, EMPTY_FILTERS, SearchFilters } from './services/searchService';
+import { saveMeetings, saveAudio, loadInterruptedRecordings, deleteRecordingSession, InterruptedRecording, QuarantinedRecord, clearQuarantine, SyncState, loadSyncState, saveSyncState, loadSyncFolder, saveSyncFolder } from './services/storageService';
+import { SyncChanges, SyncChoice, SyncSnapshot, SyncStatus, applyRecordChanges, createSyncAdapter, formatLastSync, getSyncTarget, runSync, stateForTarget, trackChanges, withoutLocalEdits } from './services/syncService';
+import { SyncError } from './services/syncAdapter';
+import { GoogleAccessToken, requestGoogleAccessToken } from './services/googleDriveSync';
+import { ensureFolderAccess, pickSyncFolder } from './services/localFolderSync';
+import { saveChatSessions, createChatSession } from './services/chatSessionService';
+import { SETTINGS_KEY, exportRawData, loadLocalData } from './services/schemaService';
+import { downloadBlob } from './services/exportService';
+import { SettingsIcon, ChatBubbleIcon, ArchiveIcon, RobotIcon, MicIcon, GlobeIcon, CheckCircleIcon, DownloadIcon, KeyIcon, CloudIcon } from './components/Icons';
 
-const LANGUAGES = [
-  { code: 'auto', label: 'Auto-Detect' },
-  { code: 'zh-CN', label: 'Chinese (中文)' },
-  { code: 'en-US', label: 'English' },
-  { code: 'ja-JP', label: 'Japanese (日本語)' },
-];
+type AppMode = 'chat' | 'vault' | 'tasks' | 'webtool';
 
-type AppMode = 'chat' | 'vault' | 'webtool';
+// Quiet period after meeting edits before the vault index catches up
+const INDEX_DELAY_MS = 3000;
+// Edits are noted for sync once they settle
+const SYNC_TRACK_DELAY_MS = 2000;
+// Drive tokens this close to expiring are renewed before use
+const TOKEN_MARGIN_MS = 60 * 1000;
+// User activity that keeps unlocked API keys from locking
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel'];
 
 function App() {
   // --- State ---
   const [mode, setMode] = useState<AppMode>('vault');
   const [meetings, setMeetings] = useState<MeetingData[]>([]);
+  // Nothing is saved until stored data has loaded, so a failed load can't overwrite it
+  const [dataLoaded, setDataLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [showRecovery, setShowRecovery] = useState(true);
   const [selectedMeetingId, setSelectedMeetingId] = useState<string | null>(null);
+
+  // Vault Search State
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+
+  // Multi-select (for bulk export)
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [checkedMeetingIds, setCheckedMeetingIds] = useState<string[]>([]);
+  const [showBulkExport, setShowBulkExport] = useState(false);
   
-  // Chat History per Agent
-  const [chatHistories, setChatHistories] = useState<Record<string, ChatMessage[]>>({});
+  // Chat Sessions (several per Agent) and the one currently open for each Agent
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
+  const [activeSessionIds, setActiveSessionIds] = useState<Record<string, string>>({});
   
   // Web Tool State
   const [activeWebToolId, setActiveWebToolId] = useState<string | null>(null);
@@ -39,114 +82,365 @@ function App() {
     activeAgentId: DEFAULT_AGENTS[0].id
   });
 
+  // Processing jobs currently running, by meeting id
+  const jobControllers = useRef(new Map<string, AbortController>());
+  // Vault index updates run one after another
+  const indexing = useRef<Promise<void>>(Promise.resolve());
+
+  // Key for passphrase-protected API keys, held in memory only while unlocked
+  const [passphraseKey, setPassphraseKey] = useState<PassphraseKey | null>(null);
+  const [showUnlock, setShowUnlock] = useState(false);
+  const isKeysLocked = !!settings.encryptedApiKeys && !passphraseKey;
+  // Latest settings for async handlers; settings writes (which may encrypt) run in order
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const settingsWrites = useRef<Promise<void>>(Promise.resolve());
+
+  // Sync: change tracking and sync runs share one chain, so they never overlap
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ phase: 'idle', conflicts: [], skipped: [] });
+  const [syncFolderName, setSyncFolderName] = useState<string | null>(null);
+  const syncRuns = useRef<Promise<void>>(Promise.resolve());
+  const syncState = useRef<SyncState | null>(null);
+  const syncFolder = useRef<FileSystemDirectoryHandle | null>(null);
+  // Drive tokens live in memory only and can only be requested from a click
+  const googleToken = useRef<GoogleAccessToken | null>(null);
+  const [driveNeedsReconnect, setDriveNeedsReconnect] = useState(false);
+  const syncSnapshot = useRef<SyncSnapshot>({ meetings, agents: settings.agents, chatSessions });
+  syncSnapshot.current = { meetings, agents: settings.agents, chatSessions };
+  const isSyncReady = !!settings.sync && (
+    settings.sync.provider === 'googleDrive' ? settings.googleDriveConnected :
+    settings.sync.provider === 'localFolder' ? !!syncFolderName :
+    !!settings.sync.webdavUrl
+  );
+
   const [showSettings, setShowSettings] = useState(false);
+  const [settingsTab, setSettingsTab] = useState<'keys' | 'data'>('keys');
   const [isAgentMenuOpen, setIsAgentMenuOpen] = useState(false);
   
   // Recording State
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [interruptedRecordings, setInterruptedRecordings] = useState<InterruptedRecording[]>([]);
   const [selectedLanguage, setSelectedLanguage] = useState<string>('zh-CN');
 
   // --- Persistence ---
   useEffect(() => {
-    const savedMeetings = localStorage.getItem('nexus_meetings');
-    const savedSettings = localStorage.getItem('nexus_settings');
-    const savedChats = localStorage.getItem('nexus_chats');
-
-    if (savedMeetings) setMeetings(JSON.parse(savedMeetings));
-    if (savedSettings) {
-       const parsed = JSON.parse(savedSettings);
-       setSettings({
-         ...parsed,
-         webTools: parsed.webTools || DEFAULT_WEB_TOOLS
-       });
-    }
-    if (savedChats) setChatHistories(JSON.parse(savedChats));
+    loadLocalData()
+      .then(data => {
+        if (data.settings) {
+          setSettings(data.settings);
+          if (data.settings.encryptedApiKeys) setShowUnlock(true);
+        }
+        setChatSessions(data.chatSessions);
+        // Jobs that were still going when the app closed start again from the queue
+        setMeetings(restoreJobs(data.meetings));
+        setQuarantined(data.quarantined);
+        setDataLoaded(true);
+      })
+      .catch(err => {
+        console.error("Failed to load data", err);
+        setLoadError(err);
+      });
+
+    loadInterruptedRecordings()
+      .then(setInterruptedRecordings)
+      .catch(err => console.error("Failed to look for interrupted recordings", err));
+
+    syncRuns.current = syncRuns.current
+      .then(async () => {
+        syncState.current = (await loadSyncState()) ?? null;
+        syncFolder.current = (await loadSyncFolder()) ?? null;
+        setSyncFolderName(syncFolder.current?.name ?? null);
+        setSyncStatus(s => ({ ...s, lastSyncAt: syncState.current?.lastSyncAt }));
+      })
+      .catch(err => console.error("Failed to load the sync state", err));
   }, []);
 
   useEffect(() => {
-    // Don't save audio blobs to local storage, just metadata
-    const toSave = meetings.map(({ audioBlob, audioUrl, ...rest }) => rest);
-    localStorage.setItem('nexus_meetings', JSON.stringify(toSave));
-  }, [meetings]);
+    // Wait for the initial load, otherwise the empty list would wipe the database
+    if (!dataLoaded) return;
+    saveMeetings(meetings).catch(err => console.error("Failed to save meetings", err));
+  }, [meetings, dataLoaded]);
+
+  // Job scheduler: start queued jobs whenever a slot is free
+  useEffect(() => {
+    if (!dataLoaded) return;
+    getJobsToStart(meetings).forEach(m => runJob(m, m.job!));
+  }, [meetings, dataLoaded]);
+
+  useEffect(() => {
+    if (!dataLoaded) return;
+    const timer = setTimeout(() => {
+      indexing.current = indexing.current
+        .then(() => syncVaultIndex(meetings, getEmbedder(settings)))
+        .catch(err => console.error("Failed to update the vault index", err));
+    }, INDEX_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [meetings, dataLoaded, settings.embeddingProvider, settings.apiKeys, settings.baseUrls]);
+
+  useEffect(() => {
+    if (!dataLoaded) return;
+    settingsWrites.current = settingsWrites.current
+      .then(() => toStoredSettings(settings, passphraseKey))
+      .then(stored => localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored)))
+      .catch(err => console.error("Failed to save settings", err));
+  }, [settings, passphraseKey, dataLoaded]);
+
+  // Auto-lock: unlocked keys are locked again after a period without user activity
+  useEffect(() => {
+    const minutes = settings.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+    if (!passphraseKey || minutes <= 0) return;
+
+    const autoLock = () => {
+      lockKeys();
+      setShowUnlock(true);
+    };
+    let timer = setTimeout(autoLock, minutes * 60 * 1000);
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(autoLock, minutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, onActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, onActivity));
+    };
+  }, [passphraseKey, settings.autoLockMinutes]);
+
+  useEffect(() => {
+    if (!dataLoaded) return;
+    saveChatSessions(chatSessions);
+  }, [chatSessions, dataLoaded]);
+
+  const syncEnabled = !!settings.sync;
+  useEffect(() => {
+    if (!dataLoaded || !syncEnabled) return;
+    const timer = setTimeout(() => {
+      syncRuns.current = syncRuns.current
+        .then(() => {
+          syncState.current = trackChanges(syncState.current ?? { target: '', records: {} }, syncSnapshot.current);
+          return saveSyncState(syncState.current);
+        })
+        .catch(err => console.error("Failed to track changes for sync", err));
+    }, SYNC_TRACK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [meetings, settings.agents, chatSessions, dataLoaded, syncEnabled]);
 
+  // Syncs as soon as the remote is reachable: at startup and after connecting it
   useEffect(() => {
-    localStorage.setItem('nexus_settings', JSON.stringify(settings));
-  }, [settings]);
+    if (dataLoaded && isSyncReady) syncNow(false);
+  }, [dataLoaded, settings.sync?.provider, settings.googleDriveConnected, syncFolderName]);
 
   useEffect(() => {
-    localStorage.setItem('nexus_chats', JSON.stringify(chatHistories));
-  }, [chatHistories]);
+    const minutes = settings.sync?.autoSyncMinutes ?? 0;
+    if (!dataLoaded || !isSyncReady || minutes <= 0) return;
+    const timer = setInterval(() => syncNow(false), minutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [dataLoaded, isSyncReady, settings.sync?.autoSyncMinutes]);
 
   // --- Handlers ---
 
   const activeAgent = settings.agents.find(a => a.id === settings.activeAgentId) || settings.agents[0];
   const activeWebTool = settings.webTools?.find(t => t.id === activeWebToolId);
 
-  const handleRecordingComplete = async (blob: Blob, duration: number) => {
-    const newId = uuidv4();
-    const audioUrl = URL.createObjectURL(blob);
-    const languageLabel = LANGUAGES.find(l => l.code === selectedLanguage)?.label || 'Auto';
-    
-    // Switch to Vault mode
-    setMode('vault');
+  const searchIndex = useMemo(() => buildSearchIndex(meetings), [meetings]);
+  const queryTerms = getQueryTerms(searchQuery);
+  // Facets are counted before the tag filter is applied, so selecting a tag doesn't hide the others
+  const untaggedResults = useMemo(
+    () => searchMeetings(searchIndex, meetings, searchQuery, { ...searchFilters, tags: [] }),
+    [searchIndex, meetings, searchQuery, searchFilters]
+  );
+  const searchResults = untaggedResults.filter(r => searchFilters.tags.every(t => r.meeting.tags.includes(t)));
+  const tagFacets = getTagFacets(untaggedResults);
+  const meetingLanguages = Array.from(new Set(meetings.map(m => m.language).filter((l): l is string => !!l)));
+  const agentSessions = chatSessions
+    .filter(s => s.agentId === activeAgent.id)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const activeSession = agentSessions.find(s => s.id === activeSessionIds[activeAgent.id]) || agentSessions[0];
 
-    const newMeeting: MeetingData = {
-      id: newId,
-      title: "Analyzing Audio...",
-      date: Date.now(),
-      duration,
-      status: MeetingStatus.PROCESSING,
-      tags: [],
-      suggestedTags: [], 
-      audioBlob: blob,
-      audioUrl: audioUrl,
-      language: languageLabel
-    };
+  // Starts a queued job; the result is dropped if the job is cancelled meanwhile
+  const runJob = async (meeting: MeetingData, job: ProcessingJob) => {
+    if (jobControllers.current.has(meeting.id)) return;
+    const controller = new AbortController();
+    jobControllers.current.set(meeting.id, controller);
+    updateMeeting(meeting.id, { job: { ...job, state: 'running' } });
 
-    setMeetings(prev => [newMeeting, ...prev]);
-    setSelectedMeetingId(newId);
-    setIsProcessing(true);
+    const baseAgent = settings.agents.find(a => a.id === job.agentId) || activeAgent;
+    const agent = { ...baseAgent, modelId: job.modelId.trim() || baseAgent.modelId };
 
     try {
-      const result = await processMeetingAudio(
-        blob, 
-        activeAgent, 
-        selectedLanguage, 
-        settings.apiKeys.google
+      if (!meeting.audioBlob) throw new Error("The original audio is not available.");
+      const onProgress = (next: ProcessingProgress) => { if (!controller.signal.aborted) updateMeeting(meeting.id, { progress: next }); };
+      const finished = { status: MeetingStatus.COMPLETED, progress: undefined, job: undefined, error: undefined };
+
+      // Keeping the report only needs a new transcript, so no report is generated
+      if (job.keepReport) {
+        const segments = await transcribeRecording(
+          meeting.audioBlob, meeting.duration, agent, job.language, settings, meeting.progress, onProgress, controller.signal
+        );
+        if (controller.signal.aborted) return;
+        updateMeeting(meeting.id, { ...finished, segments, transcription: segmentsToText(segments) });
+        return;
+      }
+
+      const result = await processRecording(
+        meeting.audioBlob, 
+        meeting.duration,
+        agent, 
+        job.language, 
+        settings,
+        meeting.progress,
+        onProgress,
+        controller.signal
       );
+      if (controller.signal.aborted) return;
 
       setMeetings(prev => prev.map(m => {
-        if (m.id === newId) {
+        if (m.id === meeting.id) {
           return {
             ...m,
-            status: MeetingStatus.COMPLETED,
-            title: result.title,
+            ...finished,
             transcription: result.transcription,
-            report: result.report,
-            suggestedTags: result.suggestedTags,
+            segments: result.segments,
+            suggestedTags: result.suggestedTags.filter(t => !m.tags.includes(t)),
             language: result.language,
+            title: result.title,
+            ...withReportVersion(m, result.report, 'generated', agent.name),
+            actionItems: createActionItems(result.actionItems || [], meeting.id),
+            fields: toMeetingFields(agent.reportTemplate, result.fields),
           };
         }
         return m;
       }));
       
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error("Processing failed", error);
-      setMeetings(prev => prev.map(m => {
-        if (m.id === newId) return { ...m, status: MeetingStatus.ERROR, title: "Error Processing" };
-        return m;
-      }));
-      alert("Processing failed. Please check your API Keys in settings.");
+      const message = error instanceof Error ? error.message : String(error);
+      updateMeeting(meeting.id, { status: MeetingStatus.ERROR, error: message, job: { ...job, state: 'failed' } });
     } finally {
-      setIsProcessing(false);
+      jobControllers.current.delete(meeting.id);
+    }
+  };
+
+  const enqueueJob = (meetingId: string, options: ReprocessOptions, updates: Partial<MeetingData> = {}) => {
+    updateMeeting(meetingId, { ...updates, status: MeetingStatus.PROCESSING, error: undefined, job: createJob(options) });
+  };
+
+  // Adds a recording to the vault and queues it for processing with the active agent
+  const addRecording = (blob: Blob, duration: number, title?: string, date: number = Date.now()): string => {
+    const newId = uuidv4();
+    const audioUrl = URL.createObjectURL(blob);
+    const languageLabel = LANGUAGES.find(l => l.code === selectedLanguage)?.label || 'Auto';
+
+    const newMeeting: MeetingData = {
+      id: newId,
+      title: title || `Recording ${new Date(date).toLocaleString()}`,
+      date,
+      duration,
+      status: MeetingStatus.PROCESSING,
+      tags: [],
+      suggestedTags: [], 
+      audioBlob: blob,
+      audioUrl: audioUrl,
+      language: languageLabel,
+      job: createJob({ agentId: activeAgent.id, modelId: activeAgent.modelId, language: selectedLanguage, keepReport: false }),
+    };
+
+    setMeetings(prev => [newMeeting, ...prev].sort((a, b) => b.date - a.date));
+    saveAudio(newId, blob).catch(err => console.error("Failed to store audio", err));
+    return newId;
+  };
+
+  const handleRecordingComplete = (blob: Blob, duration: number) => {
+    // Switch to Vault mode
+    setMode('vault');
+    setSelectedMeetingId(addRecording(blob, duration));
+  };
+
+  const dismissInterruptedRecording = (recording: InterruptedRecording) => {
+    setInterruptedRecordings(prev => prev.filter(r => r.session.id !== recording.session.id));
+    deleteRecordingSession(recording.session.id).catch(err => console.error("Failed to remove recording backup", err));
+  };
+
+  const recoverRecording = (recording: InterruptedRecording) => {
+    const { session, blob } = recording;
+    setSelectedMeetingId(addRecording(blob, session.duration, undefined, session.startedAt));
+    dismissInterruptedRecording(recording);
+  };
+
+  const handleFilesImported = async (files: File[]) => {
+    const failures: string[] = [];
+    let lastId: string | null = null;
+
+    // One at a time: video files are decoded in memory to extract their audio
+    for (const file of files) {
+      try {
+        const imported = await importMediaFile(file);
+        lastId = addRecording(imported.blob, imported.duration, imported.title, imported.date);
+      } catch (error) {
+        console.error("Import failed", error);
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : 'import failed.'}`);
+      }
     }
+
+    if (lastId) setSelectedMeetingId(lastId);
+    if (failures.length > 0) alert(`Some files could not be imported:\n${failures.join('\n')}`);
+  };
+
+  // Queues a failed or cancelled job again; a chunked run continues from its saved progress
+  const retryJob = (meeting: MeetingData) => {
+    if (!meeting.job) return;
+    enqueueJob(meeting.id, meeting.job);
+  };
+
+  // Runs the stored audio through the pipeline again from scratch
+  const reprocessMeeting = (meetingId: string, options: ReprocessOptions) => {
+    enqueueJob(meetingId, options, { progress: undefined });
+  };
+
+  const cancelJob = (meetingId: string) => {
+    jobControllers.current.get(meetingId)?.abort();
+    setMeetings(prev => prev.map(m => m.id === meetingId && m.job ? {
+      ...m,
+      // A meeting that was only being reprocessed still has its previous result
+      status: m.report ? MeetingStatus.COMPLETED : MeetingStatus.ERROR,
+      error: m.report ? undefined : "Processing was cancelled.",
+      job: { ...m.job, state: 'cancelled' },
+    } : m));
   };
 
   const updateMeeting = (id: string, updates: Partial<MeetingData>) => {
     setMeetings(prev => prev.map(m => m.id === id ? { ...m, ...updates } : m));
   };
   
+  const updateReport = (id: string, report: string, source: ReportVersionSource, detail?: string) => {
+    setMeetings(prev => prev.map(m => m.id === id ? { ...m, ...withReportVersion(m, report, source, detail) } : m));
+  };
+
+  const updateActionItem = (meetingId: string, itemId: string, updates: Partial<ActionItem>) => {
+    setMeetings(prev => prev.map(m => m.id === meetingId
+      ? { ...m, actionItems: (m.actionItems || []).map(a => a.id === itemId ? { ...a, ...updates } : a) }
+      : m
+    ));
+  };
+
+  const openMeeting = (meetingId: string) => {
+    setSelectedMeetingId(meetingId);
+    setMode('vault');
+  };
+
+  const toggleChecked = (id: string) => {
+    setCheckedMeetingIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setCheckedMeetingIds([]);
+  };
+
   const deleteMeeting = (id: string) => {
+      const meeting = meetings.find(m => m.id === id);
+      jobControllers.current.get(id)?.abort();
+      if (meeting?.audioUrl) URL.revokeObjectURL(meeting.audioUrl);
       setMeetings(prev => prev.filter(m => m.id !== id));
       if (selectedMeetingId === id) setSelectedMeetingId(null);
   };
@@ -161,10 +455,210 @@ function App() {
     setMode('webtool');
   };
 
-  const updateChatHistory = (messages: ChatMessage[]) => {
-    setChatHistories(prev => ({ ...prev, [activeAgent.id]: messages }));
+  const createSession = (): string => {
+    const session = createChatSession(activeAgent.id);
+    setChatSessions(prev => [session, ...prev]);
+    setActiveSessionIds(prev => ({ ...prev, [activeAgent.id]: session.id }));
+    return session.id;
+  };
+
+  const selectSession = (sessionId: string) => {
+    setActiveSessionIds(prev => ({ ...prev, [activeAgent.id]: sessionId }));
+  };
+
+  const updateSession = (sessionId: string, updates: Partial<ChatSession>) => {
+    setChatSessions(prev => prev.map(s => s.id === sessionId ? { ...s, ...updates } : s));
+  };
+
+  const updateSessionMessages = (sessionId: string, messages: ChatMessage[]) => {
+    updateSession(sessionId, { messages, updatedAt: Date.now() });
+  };
+
+  const deleteSession = (sessionId: string) => {
+    setChatSessions(prev => prev.filter(s => s.id !== sessionId));
+  };
+
+  // --- API Key Protection ---
+
+  const unlockKeys = async (passphrase: string) => {
+    const { apiKeys, passphraseKey } = await decryptApiKeys(settingsRef.current.encryptedApiKeys!, passphrase);
+    setPassphraseKey(passphraseKey);
+    setSettings(s => ({ ...s, apiKeys }));
+    setShowUnlock(false);
+  };
+
+  // Encrypts the current keys before dropping them, so the stored ciphertext is up to date
+  const lockKeys = () => {
+    if (!passphraseKey) return;
+    encryptApiKeys(settingsRef.current.apiKeys, passphraseKey)
+      .then(encryptedApiKeys => {
+        setPassphraseKey(null);
+        setSettings(s => ({ ...s, apiKeys: EMPTY_API_KEYS, encryptedApiKeys }));
+      })
+      .catch(err => console.error("Failed to lock API keys", err));
+  };
+
+  // Sets or changes the passphrase; keys must be unlocked (or not yet protected)
+  const protectKeys = async (passphrase: string) => {
+    const key = await createPassphraseKey(passphrase);
+    const encryptedApiKeys = await encryptApiKeys(settingsRef.current.apiKeys, key);
+    setPassphraseKey(key);
+    setSettings(s => ({ ...s, encryptedApiKeys }));
+  };
+
+  const unprotectKeys = () => {
+    setPassphraseKey(null);
+    setSettings(s => ({ ...s, encryptedApiKeys: undefined }));
+  };
+
+  const forgetKeys = () => {
+    setPassphraseKey(null);
+    setSettings(s => ({ ...s, apiKeys: EMPTY_API_KEYS, encryptedApiKeys: undefined }));
+    setShowUnlock(false);
+  };
+
+  // Keys in a backup are encrypted with the passphrase chosen when it was made
+  const importSettings = (imported: UserSettings) => {
+    if (imported.encryptedApiKeys) {
+      setPassphraseKey(null);
+      setShowUnlock(true);
+    }
+    setSettings(s => mergeImportedSettings(s, imported));
+  };
+
+  // --- Data Recovery ---
+
+  const exportRaw = async () => {
+    downloadBlob(await exportRawData(), `nexus-raw-data-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const discardQuarantined = () => {
+    clearQuarantine()
+      .then(() => setQuarantined([]))
+      .catch(err => console.error("Failed to delete quarantined records", err));
+  };
+
+  // --- Sync ---
+
+  const hasGoogleToken = () => {
+    const cached = googleToken.current;
+    return !!cached && cached.expiresAt - Date.now() > TOKEN_MARGIN_MS;
+  };
+
+  // A new token needs the sign-in popup, which only opens from a click (see requestSyncAccess)
+  const getGoogleToken = async () => {
+    if (!hasGoogleToken()) {
+      setDriveNeedsReconnect(true);
+      throw new SyncError('googleDrive', "Google Drive needs to be reconnected. Click Sync now.");
+    }
+    return googleToken.current!.token;
+  };
+
+  // Browsers only show permission prompts right after a click, so these start before the sync is queued
+  const requestSyncAccess = async () => {
+    const sync = settingsRef.current.sync;
+    if (sync?.provider === 'localFolder' && syncFolder.current) await ensureFolderAccess(syncFolder.current, true);
+    if (sync?.provider === 'googleDrive' && settingsRef.current.googleDriveConnected && !hasGoogleToken()) {
+      googleToken.current = await requestGoogleAccessToken(sync.googleClientId!, false);
+      setDriveNeedsReconnect(false);
+    }
   };
 
+  const applySyncChanges = async (changes: SyncChanges) => {
+    // Audio is stored first, so the meetings below can point at it
+    const audio = new Map<string, Pick<MeetingData, 'audioBlob' | 'audioUrl'>>();
+    for (const { meetingId, blob } of changes.audio) {
+      await saveAudio(meetingId, blob);
+      audio.set(meetingId, { audioBlob: blob, audioUrl: URL.createObjectURL(blob) });
+    }
+
+    setMeetings(prev => {
+      // Remote meetings come without audio; keep what's here unless new audio came along
+      const pulled = changes.meetings.map(m => {
+        const local = prev.find(p => p.id === m.id);
+        return { ...m, audioBlob: local?.audioBlob, audioUrl: local?.audioUrl };
+      });
+      return applyRecordChanges(prev, pulled, changes.deleted.meetings)
+        .map(m => audio.has(m.id) ? { ...m, ...audio.get(m.id) } : m)
+        .sort((a, b) => b.date - a.date);
+    });
+
+    if (changes.agents.length > 0 || changes.deleted.agents.length > 0) {
+      setSettings(s => {
+        const merged = applyRecordChanges(s.agents, changes.agents, changes.deleted.agents);
+        // Never end up without an agent
+        const agents = merged.length > 0 ? merged : s.agents;
+        return { ...s, agents, activeAgentId: agents.some(a => a.id === s.activeAgentId) ? s.activeAgentId : agents[0].id };
+      });
+    }
+
+    setChatSessions(prev => applyRecordChanges(prev, changes.chatSessions, changes.deleted.chatSessions));
+  };
+
+  // interactive: started by a click, so access prompts may show
+  const syncNow = (interactive: boolean, resolutions: Record<string, SyncChoice> = {}) => {
+    const sync = settingsRef.current.sync;
+    if (!sync) return;
+    // Automatic syncs can't sign in to Drive again; they wait for the user to reconnect
+    if (!interactive && sync.provider === 'googleDrive' && !hasGoogleToken()) {
+      setDriveNeedsReconnect(true);
+      return;
+    }
+    const access = interactive ? requestSyncAccess() : Promise.resolve();
+
+    syncRuns.current = syncRuns.current.then(async () => {
+      const current = settingsRef.current;
+      if (!current.sync) return;
+      setSyncStatus(s => ({ ...s, phase: 'syncing', error: undefined, progress: undefined }));
+      try {
+        await access;
+        if (current.sync.provider === 'localFolder' && syncFolder.current && !(await ensureFolderAccess(syncFolder.current, false))) {
+          throw new SyncError('localFolder', "Access to the folder has to be allowed again. Click Sync now.");
+        }
+        const adapter = createSyncAdapter(current, { getGoogleToken, folder: syncFolder.current });
+        const state = stateForTarget(syncState.current ?? undefined, getSyncTarget(current, syncFolder.current));
+        const snapshot = syncSnapshot.current;
+        const synced = await runSync(adapter, snapshot, state, {
+          strategy: current.sync.conflictStrategy,
+          resolutions,
+          onProgress: (done, total) => setSyncStatus(s => ({ ...s, progress: { done, total } })),
+        });
+        // Edits made while the sync ran win over what it pulled, until the next sync compares them
+        const result = withoutLocalEdits(synced, snapshot, syncSnapshot.current, state);
+        await applySyncChanges(result.changes);
+        syncState.current = result.state;
+        await saveSyncState(result.state);
+        setSyncStatus({ phase: 'idle', lastSyncAt: result.state.lastSyncAt, conflicts: result.conflicts, skipped: result.skipped });
+      } catch (err) {
+        console.error("Sync failed", err);
+        setSyncStatus(s => ({ ...s, phase: 'error', error: (err as Error).message, progress: undefined }));
+      }
+    });
+  };
+
+  // Signs in to Drive or picks the folder; the first sync follows once the remote is ready
+  const connectSync = async () => {
+    const sync = settingsRef.current.sync;
+    if (sync?.provider === 'googleDrive') {
+      googleToken.current = await requestGoogleAccessToken(sync.googleClientId!, true);
+      setDriveNeedsReconnect(false);
+      setSettings(s => ({ ...s, googleDriveConnected: true }));
+    } else if (sync?.provider === 'localFolder') {
+      const folder = await pickSyncFolder();
+      await saveSyncFolder(folder);
+      syncFolder.current = folder;
+      setSyncFolderName(folder.name);
+    }
+  };
+
+  const showDriveReconnect = driveNeedsReconnect && settings.sync?.provider === 'googleDrive' && settings.googleDriveConnected;
+  const syncLabel =
+    syncStatus.phase === 'syncing' ? `Syncing${syncStatus.progress ? ` ${syncStatus.progress.done}/${syncStatus.progress.total}` : ''}...` :
+    showDriveReconnect ? 'Reconnect Drive' :
+    syncStatus.phase === 'error' ? 'Sync failed' :
+    syncStatus.conflicts.length > 0 ? `${syncStatus.conflicts.length} sync conflict${syncStatus.conflicts.length > 1 ? 's' : ''}` :
+    syncStatus.lastSyncAt ? `Synced ${formatLastSync(syncStatus.lastSyncAt)}` : 'Not synced yet';
+
   // --- Render ---
 
   return (
@@ -197,6 +691,14 @@ function App() {
              <ArchiveIcon className="w-6 h-6" />
              <span className="font-medium hidden lg:block">Vault</span>
            </button>
+
+           <button 
+             onClick={() => { setMode('tasks'); }}
+             className={`w-full flex items-center gap-3 p-3 rounded-xl transition-all ${mode === 'tasks' ? 'bg-brand-600 text-white shadow-lg' : 'hover:bg-slate-800'}`}
+           >
+             <CheckCircleIcon className="w-6 h-6" />
+             <span className="font-medium hidden lg:block">Tasks</span>
+           </button>
            
            <div className="pt-4 mt-4 border-t border-slate-800">
              <p className="px-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 hidden lg:block mb-2">Web Apps</p>
@@ -240,6 +742,32 @@ function App() {
            >
              <SettingsIcon className="w-4 h-4" /> <span className="hidden lg:inline">Configure</span>
            </button>
+           {settings.encryptedApiKeys && (
+             <button 
+                onClick={() => isKeysLocked ? setShowUnlock(true) : lockKeys()}
+                className={`mt-2 w-full flex items-center justify-center gap-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${isKeysLocked ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'text-slate-500 hover:text-slate-300'}`}
+                title={isKeysLocked ? "API keys are locked" : "Lock API keys"}
+             >
+               <KeyIcon className="w-4 h-4" /> <span className="hidden lg:inline">{isKeysLocked ? 'Unlock keys' : 'Lock keys'}</span>
+             </button>
+           )}
+           {settings.sync && (
+             <button 
+                onClick={() => {
+                  if (syncStatus.conflicts.length > 0 || !isSyncReady) {
+                    setSettingsTab('data');
+                    setShowSettings(true);
+                  } else {
+                    syncNow(true);
+                  }
+                }}
+                disabled={syncStatus.phase === 'syncing'}
+                className={`mt-2 w-full flex items-center justify-center gap-2 py-1.5 rounded-lg text-xs font-medium transition-colors ${syncStatus.phase === 'error' ? 'bg-red-500/20 text-red-300 hover:bg-red-500/30' : syncStatus.conflicts.length > 0 ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30' : 'text-slate-500 hover:text-slate-300'}`}
+                title={showDriveReconnect ? "Sign in to Google Drive again to resume syncing" : syncStatus.phase === 'error' ? syncStatus.error : isSyncReady ? "Sync now" : "Finish setting up sync"}
+             >
+               <CloudIcon className={`w-4 h-4 ${syncStatus.phase === 'syncing' ? 'animate-pulse' : ''}`} /> <span className="hidden lg:inline truncate">{syncLabel}</span>
+             </button>
+           )}
         </div>
       </div>
 
@@ -317,43 +845,170 @@ function App() {
              <ChatInterface 
                 agent={activeAgent} 
                 userSettings={settings} 
-                history={chatHistories[activeAgent.id] || []}
-                onUpdateHistory={updateChatHistory}
+                sessions={agentSessions}
+                activeSession={activeSession}
+                onCreateSession={createSession}
+                onSelectSession={selectSession}
+                onRenameSession={(id, title) => updateSession(id, { title })}
+                onDeleteSession={deleteSession}
+                onUpdateMessages={updateSessionMessages}
+                onSetVaultMode={(id, useVault) => updateSession(id, { useVault })}
+                meetings={meetings}
+                onOpenMeeting={(id) => { setMode('vault'); setSelectedMeetingId(id); }}
              />
            </div>
 
            {/* MODE: VAULT */}
            <div className={`absolute inset-0 bg-slate-50 flex flex-col ${mode === 'vault' ? 'z-10 opacity-100' : 'z-0 opacity-0 pointer-events-none'}`}>
+             {showBulkExport && (
+               <ExportDialog 
+                 meetings={meetings.filter(m => checkedMeetingIds.includes(m.id))}
+                 onClose={() => setShowBulkExport(false)}
+               />
+             )}
              <div className="flex h-full">
                 {/* List of Meetings */}
                 <div className={`${selectedMeetingId ? 'hidden md:block w-80' : 'w-full'} bg-white border-r border-slate-200 overflow-y-auto`}>
                    <div className="p-4 sticky top-0 bg-white/95 backdrop-blur z-10 border-b border-slate-100">
-                      <h2 className="font-bold text-slate-800 text-lg mb-1">Vault</h2>
-                      <p className="text-xs text-slate-500">Your digital memory & recordings</p>
+                      <div className="flex justify-between items-start">
+                        <div>
+                          <h2 className="font-bold text-slate-800 text-lg mb-1">Vault</h2>
+                          <p className="text-xs text-slate-500">Your digital memory & recordings</p>
+                        </div>
+                        {meetings.length > 0 && (
+                          <button 
+                            onClick={() => isSelecting ? stopSelecting() : setIsSelecting(true)}
+                            className="text-xs font-medium text-slate-500 hover:text-brand-600"
+                          >
+                            {isSelecting ? 'Done' : 'Select'}
+                          </button>
+                        )}
+                      </div>
+                      {isSelecting && (
+                        <div className="flex items-center justify-between gap-2 mt-3 p-2 rounded-lg bg-brand-50 text-xs">
+                          <span className="text-brand-900 font-medium">{checkedMeetingIds.length} selected</span>
+                          <div className="flex items-center gap-3">
+                            <button 
+                              onClick={() => setCheckedMeetingIds(searchResults.map(r => r.meeting.id))}
+                              className="text-brand-600 hover:text-brand-900"
+                            >
+                              Select all
+                            </button>
+                            <button 
+                              onClick={() => setShowBulkExport(true)}
+                              disabled={checkedMeetingIds.length === 0}
+                              className="flex items-center gap-1 px-2 py-1 rounded bg-brand-600 text-white font-bold hover:bg-brand-900 disabled:opacity-50"
+                            >
+                              <DownloadIcon className="w-3 h-3" /> Export
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      <VaultSearchBar 
+                        query={searchQuery}
+                        onQueryChange={setSearchQuery}
+                        filters={searchFilters}
+                        onFiltersChange={setSearchFilters}
+                        tagFacets={tagFacets}
+                        languages={meetingLanguages}
+                        resultCount={searchResults.length}
+                      />
                    </div>
                    
                    <div className="p-3 space-y-2">
                       <div className="p-4 rounded-xl bg-slate-50 border border-slate-200 border-dashed flex flex-col items-center gap-3 mb-4">
-                         <Recorder onRecordingComplete={handleRecordingComplete} isProcessing={isProcessing} />
+                         <RecordingRecoveryBanner 
+                           recordings={interruptedRecordings}
+                           onRecover={recoverRecording}
+                           onDiscard={dismissInterruptedRecording}
+                         />
+                         <Recorder onRecordingComplete={handleRecordingComplete} />
+                         <FileImporter onImport={handleFilesImported} />
                       </div>
 
-                      {meetings.length === 0 && !isProcessing && (
+                      {meetings.length === 0 && (
                         <div className="text-center p-8 text-slate-400">
                            <p className="text-sm">No recordings yet.</p>
                         </div>
                       )}
 
-                      {meetings.map(meeting => (
+                      {meetings.length > 0 && searchResults.length === 0 && (
+                        <div className="text-center p-8 text-slate-400">
+                           <p className="text-sm">No meetings match your search.</p>
+                        </div>
+                      )}
+
+                      {searchResults.map(({ meeting, snippet }) => (
                          <div 
                            key={meeting.id}
-                           onClick={() => setSelectedMeetingId(meeting.id)}
-                           className={`p-4 rounded-xl cursor-pointer border transition-all ${selectedMeetingId === meeting.id ? 'bg-brand-50 border-brand-200 shadow-sm' : 'bg-white border-slate-100 hover:border-brand-200 hover:shadow-sm'}`}
+                           onClick={() => isSelecting ? toggleChecked(meeting.id) : setSelectedMeetingId(meeting.id)}
+                           className={`p-4 rounded-xl cursor-pointer border transition-all ${selectedMeetingId === meeting.id || checkedMeetingIds.includes(meeting.id) ? 'bg-brand-50 border-brand-200 shadow-sm' : 'bg-white border-slate-100 hover:border-brand-200 hover:shadow-sm'}`}
                          >
                             <div className="flex justify-between items-start mb-1">
-                               <h3 className={`font-semibold text-sm truncate pr-2 ${selectedMeetingId === meeting.id ? 'text-brand-700' : 'text-slate-700'}`}>{meeting.title}</h3>
+                               {isSelecting && (
+                                 <input 
+                                   type="checkbox"
+                                   checked={checkedMeetingIds.includes(meeting.id)}
+                                   onChange={() => toggleChecked(meeting.id)}
+                                   onClick={e => e.stopPropagation()}
+                                   className="mt-0.5 mr-2 shrink-0 accent-brand-600"
+                                 />
+                               )}
+                               <h3 className={`font-semibold text-sm truncate pr-2 ${selectedMeetingId === meeting.id ? 'text-brand-700' : 'text-slate-700'}`}>
+                                 <HighlightedText text={meeting.title} terms={queryTerms} />
+                               </h3>
                                <span className="text-[10px] text-slate-400 whitespace-nowrap">{new Date(meeting.date).toLocaleDateString()}</span>
                             </div>
-                            <p className="text-xs text-slate-500 line-clamp-2 h-8">{meeting.report ? meeting.report.substring(0, 80) : "Processing..."}</p>
+                            {snippet && snippet.field !== 'title' ? (
+                              <p className="text-xs text-slate-500 line-clamp-2 h-8">
+                                <HighlightedText text={snippet.text} terms={queryTerms} />
+                              </p>
+                            ) : (
+                              meeting.status === MeetingStatus.ERROR && !meeting.report ? (
+                                <p className="text-xs text-red-500 line-clamp-2 h-8">{meeting.error || "Processing failed."}</p>
+                              ) : (
+                                <p className="text-xs text-slate-500 line-clamp-2 h-8">{meeting.report ? meeting.report.substring(0, 80) : "Processing..."}</p>
+                              )
+                            )}
+                            {isJobActive(meeting.job) && (
+                              <div className="mt-2">
+                                <div className="flex justify-between items-center text-[10px] text-slate-400 mb-1">
+                                  <span>
+                                    {meeting.job!.state === 'queued' ? 'Queued' :
+                                     !meeting.progress ? 'Analyzing audio...' :
+                                     meeting.progress.stage === 'reporting' ? 'Writing report...' :
+                                     `Transcribing part ${Math.min(meeting.progress.completedChunks + 1, meeting.progress.totalChunks)} of ${meeting.progress.totalChunks}`}
+                                  </span>
+                                  <button 
+                                    onClick={(e) => { e.stopPropagation(); cancelJob(meeting.id); }}
+                                    className="font-bold hover:text-red-500"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                                {meeting.job!.state === 'running' && (
+                                  <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                                    {meeting.progress ? (
+                                      <div className="h-full bg-brand-500 transition-all" style={{ width: `${(meeting.progress.completedChunks / meeting.progress.totalChunks) * 100}%` }}></div>
+                                    ) : (
+                                      <div className="h-full w-1/3 bg-brand-500 animate-pulse"></div>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            {(meeting.job?.state === 'failed' || meeting.job?.state === 'cancelled') && (
+                              <button 
+                                onClick={(e) => { e.stopPropagation(); retryJob(meeting); }}
+                                disabled={!meeting.audioBlob}
+                                className="mt-2 text-[10px] font-bold text-brand-600 hover:text-brand-800 disabled:opacity-50"
+                              >
+                                ↻ {!meeting.progress ? 'Retry'
+                                    : meeting.progress.completedChunks < meeting.progress.totalChunks
+                                    ? `Resume from part ${meeting.progress.completedChunks + 1} of ${meeting.progress.totalChunks}`
+                                    : 'Resume report generation'}
+                              </button>
+                            )}
                             <div className="flex gap-1 mt-2 flex-wrap h-4 overflow-hidden">
                                {meeting.tags.slice(0, 2).map(t => <span key={t} className="text-[10px] px-1.5 rounded-full bg-slate-100 text-slate-500">#{t}</span>)}
                             </div>
@@ -369,11 +1024,17 @@ function App() {
                          <MeetingDetail 
                            key={selectedMeetingId}
                            meeting={meetings.find(m => m.id === selectedMeetingId)!} 
+                           agent={activeAgent}
+                           userSettings={settings}
+                           searchTerms={queryTerms}
                            onClose={() => setSelectedMeetingId(null)}
-                           onUpdateTags={(tags, suggested) => updateMeeting(selectedMeetingId, { tags, suggestedTags: suggested })}
-                           onUpdateReport={(newReport) => updateMeeting(selectedMeetingId, { report: newReport })}
+                           onUpdateTags={(tags, suggested) => updateMeeting(selectedMeetingId, suggested ? { tags, suggestedTags: suggested } : { tags })}
+                           onUpdateReport={(newReport, source, detail) => updateReport(selectedMeetingId, newReport, source, detail)}
                            onUpdateTitle={(newTitle) => updateMeeting(selectedMeetingId, { title: newTitle })}
+                           onUpdateMeeting={(updates) => updateMeeting(selectedMeetingId, updates)}
                            onDelete={() => deleteMeeting(selectedMeetingId)}
+                           onReprocess={(options) => reprocessMeeting(selectedMeetingId, options)}
+                           onCancelProcessing={() => cancelJob(selectedMeetingId)}
                          />
                       )}
                    </div>
@@ -386,6 +1047,15 @@ function App() {
              </div>
            </div>
 
+           {/* MODE: TASKS */}
+           <div className={`absolute inset-0 bg-slate-50 flex flex-col ${mode === 'tasks' ? 'z-10 opacity-100' : 'z-0 opacity-0 pointer-events-none'}`}>
+             <TasksView 
+               meetings={meetings}
+               onUpdateActionItem={updateActionItem}
+               onOpenMeeting={openMeeting}
+             />
+           </div>
+
            {/* MODE: WEB TOOLS (Browser Tabs) */}
            {/* We render ALL active web tools but hide them, so iframes don't reload when switching tabs */}
            {(settings.webTools || []).map(tool => (
@@ -405,13 +1075,46 @@ function App() {
          <SettingsModal 
            settings={settings} 
            onUpdateSettings={setSettings} 
-           onClose={() => setShowSettings(false)} 
+           onClose={() => { setShowSettings(false); setSettingsTab('keys'); }} 
            meetings={meetings}
            onImportMeetings={(newMeetings) => setMeetings(newMeetings)}
-           chatHistories={chatHistories}
-           onImportChats={(newChats) => setChatHistories(newChats)}
+           chatSessions={chatSessions}
+           onImportSessions={(newSessions) => setChatSessions(newSessions)}
+           onImportSettings={importSettings}
+           isKeysLocked={isKeysLocked}
+           onProtectKeys={protectKeys}
+           onUnprotectKeys={unprotectKeys}
+           onLockKeys={lockKeys}
+           onUnlockKeys={() => setShowUnlock(true)}
+           initialTab={settingsTab}
+           syncStatus={syncStatus}
+           syncFolderName={syncFolderName}
+           onConnectSync={connectSync}
+           onSyncNow={() => syncNow(true)}
+           onResolveSyncConflict={(key, choice) => syncNow(true, { [key]: choice })}
          />
       )}
+
+      {loadError && (
+        <RecoveryScreen error={loadError} quarantined={[]} onExport={exportRaw} />
+      )}
+
+      {showRecovery && quarantined.length > 0 && (
+        <RecoveryScreen
+          quarantined={quarantined}
+          onExport={exportRaw}
+          onDiscard={discardQuarantined}
+          onContinue={() => setShowRecovery(false)}
+        />
+      )}
+
+      {showUnlock && isKeysLocked && (
+        <UnlockKeysDialog
+          onUnlock={unlockKeys}
+          onSkip={() => setShowUnlock(false)}
+          onForget={forgetKeys}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,80 @@
+import React from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { ActionItem } from '../types';
+import { isOverdue } from '../services/actionItemService';
+import { TrashIcon } from './Icons';
+
+interface ActionItemsEditorProps {
+  meetingId: string;
+  items: ActionItem[];
+  onChange: (items: ActionItem[]) => void;
+}
+
+const ActionItemsEditor: React.FC<ActionItemsEditorProps> = ({ meetingId, items, onChange }) => {
+  const updateItem = (id: string, updates: Partial<ActionItem>) => {
+    onChange(items.map(item => item.id === id ? { ...item, ...updates } : item));
+  };
+
+  const handleAdd = () => {
+    onChange([...items, { id: uuidv4(), text: '', owner: '', dueDate: '', meetingId, status: 'open' }]);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
+        <h2 className="font-semibold text-slate-700 flex items-center gap-2">
+          ✅ Action Items
+          <span className="text-xs font-normal text-slate-400">{items.filter(i => i.status === 'open').length} open</span>
+        </h2>
+        <button onClick={handleAdd} className="text-xs font-medium text-brand-600 hover:text-brand-800">
+          + Add Item
+        </button>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {items.length === 0 && (
+          <p className="p-4 text-sm text-slate-400 italic">No action items.</p>
+        )}
+        {items.map(item => (
+          <div key={item.id} className="flex items-center gap-3 px-4 py-2 group">
+            <input 
+              type="checkbox"
+              checked={item.status === 'done'}
+              onChange={e => updateItem(item.id, { status: e.target.checked ? 'done' : 'open' })}
+              className="w-4 h-4 accent-brand-600 shrink-0"
+            />
+            <input 
+              type="text"
+              value={item.text}
+              onChange={e => updateItem(item.id, { text: e.target.value })}
+              placeholder="What needs to be done?"
+              className={`flex-1 min-w-0 text-sm outline-none bg-transparent ${item.status === 'done' ? 'line-through text-slate-400' : 'text-slate-700'}`}
+            />
+            <input 
+              type="text"
+              value={item.owner}
+              onChange={e => updateItem(item.id, { owner: e.target.value })}
+              placeholder="Owner"
+              className="w-28 text-xs px-2 py-1 rounded border border-transparent hover:border-slate-200 focus:border-brand-300 outline-none text-slate-600"
+            />
+            <input 
+              type="date"
+              value={item.dueDate}
+              onChange={e => updateItem(item.id, { dueDate: e.target.value })}
+              className={`w-32 text-xs px-2 py-1 rounded border border-transparent hover:border-slate-200 focus:border-brand-300 outline-none ${isOverdue(item) ? 'text-red-600' : 'text-slate-600'}`}
+            />
+            <button 
+              onClick={() => onChange(items.filter(i => i.id !== item.id))}
+              className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 transition-all p-1"
+              title="Remove"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ActionItemsEditor;
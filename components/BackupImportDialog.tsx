@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import {
+  Backup, BackupCategory, BACKUP_CATEGORIES, ConflictChoice, ImportItemStatus, ImportPreview, ImportSelection,
+  backupHasKeys, conflictKey
+} from '../services/backupService';
+
+interface BackupImportDialogProps {
+  backup: Backup;
+  preview: ImportPreview;
+  hasKeys: boolean; // whether keys are configured here already
+  onImport: (selection: ImportSelection) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportItemStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'bg-green-100 text-green-700' },
+  changed: { label: 'Updated', className: 'bg-blue-100 text-blue-700' },
+  conflict: { label: 'Conflict', className: 'bg-amber-100 text-amber-700' },
+  unchanged: { label: 'Unchanged', className: 'bg-slate-100 text-slate-500' },
+};
+
+const CONFLICT_CHOICES: { id: ConflictChoice; label: string }[] = [
+  { id: 'keep', label: 'Keep mine' },
+  { id: 'replace', label: 'Use backup' },
+  { id: 'both', label: 'Keep both' },
+];
+
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ backup, preview, hasKeys, onImport, onClose }) => {
+  const hasWork = (category: BackupCategory) => preview[category].some(item => item.status !== 'unchanged');
+
+  const [categories, setCategories] = useState<BackupCategory[]>(BACKUP_CATEGORIES.map(c => c.id).filter(hasWork));
+  const [includeKeys, setIncludeKeys] = useState(!hasKeys && backupHasKeys(backup));
+  const [conflicts, setConflicts] = useState<Record<string, ConflictChoice>>({});
+
+  const toggleCategory = (category: BackupCategory) => {
+    setCategories(prev => prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]);
+  };
+
+  const countOf = (category: BackupCategory, status: ImportItemStatus) =>
+    preview[category].filter(item => item.status === status).length;
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-slate-800">Import Backup</h2>
+            <p className="text-xs text-slate-400">Made on {new Date(backup.date).toLocaleString()}. Nothing here is deleted; choose what to bring in.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {BACKUP_CATEGORIES.map(({ id: category, label }) => {
+            const items = preview[category].filter(item => item.status !== 'unchanged');
+            const unchanged = countOf(category, 'unchanged');
+            const selected = categories.includes(category);
+            return (
+              <div key={category}>
+                <label className={`flex items-center gap-2 text-sm font-bold ${items.length ? 'text-slate-800 cursor-pointer' : 'text-slate-400'}`}>
+                  <input type="checkbox" checked={selected} disabled={!items.length} onChange={() => toggleCategory(category)} />
+                  {label}
+                  <span className="font-normal text-xs text-slate-400">
+                    {(['new', 'changed', 'conflict'] as ImportItemStatus[])
+                      .filter(status => countOf(category, status) > 0)
+                      .map(status => `${countOf(category, status)} ${STATUS_STYLES[status].label.toLowerCase()}`)
+                      .concat(unchanged ? [`${unchanged} unchanged`] : [])
+                      .join(', ') || 'none in backup'}
+                  </span>
+                </label>
+
+                {selected && items.length > 0 && (
+                  <div className="mt-2 ml-6 border border-slate-100 rounded-lg divide-y divide-slate-100 max-h-48 overflow-y-auto">
+                    {items.map(item => (
+                      <div key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                        <span className={`shrink-0 px-2 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[item.status].className}`}>
+                          {STATUS_STYLES[item.status].label}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate text-slate-700">{item.label}</span>
+                        {item.status === 'conflict' && (
+                          <select
+                            value={conflicts[conflictKey(category, item.id)] || 'keep'}
+                            onChange={e => setConflicts(prev => ({ ...prev, [conflictKey(category, item.id)]: e.target.value as ConflictChoice }))}
+                            className="shrink-0 border border-slate-200 rounded-lg px-2 py-1 text-xs focus:ring-2 focus:ring-brand-500 outline-none"
+                          >
+                            {CONFLICT_CHOICES.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                          </select>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {backupHasKeys(backup) && (
+            <label className="flex items-start gap-2 text-sm text-slate-700 cursor-pointer pt-4 border-t border-slate-100">
+              <input type="checkbox" className="mt-1" checked={includeKeys} onChange={e => setIncludeKeys(e.target.checked)} />
+              <span>
+                <span className="font-bold text-slate-800">API keys and endpoints</span>
+                <span className="block text-xs text-slate-400">
+                  {backup.settings.encryptedApiKeys
+                    ? "Encrypted; you'll be asked for the passphrase the backup was made with."
+                    : "Stored in plain text by an older version of the app."}
+                  {hasKeys && " Replaces the keys configured here."}
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport({ categories, includeKeys, conflicts })}
+            disabled={categories.length === 0 && !includeKeys}
+            className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupImportDialog;
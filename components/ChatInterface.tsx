@@ -1,20 +1,58 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Agent, ChatMessage, UserSettings } from '../types';
-import { chatWithAgent } from '../services/geminiService';
+import { Agent, ChatMessage, ChatSession, MeetingData, UserSettings, VaultSource } from '../types';
+import { streamChatWithAgent, streamVaultChatWithAgent, generateChatTitle, getEmbedder } from '../services/aiService';
+import { searchVault } from '../services/vaultIndexService';
+import { formatTimestamp } from '../services/transcriptService';
+import { DEFAULT_SESSION_TITLE } from '../services/chatSessionService';
 import { v4 as uuidv4 } from 'uuid';
-import { RobotIcon } from './Icons';
+import { RobotIcon, StopIcon, PencilIcon, TrashIcon, ArchiveIcon } from './Icons';
+import MarkdownView from './MarkdownView';
 
 interface ChatInterfaceProps {
   agent: Agent;
   userSettings: UserSettings;
-  history: ChatMessage[];
-  onUpdateHistory: (messages: ChatMessage[]) => void;
+  sessions: ChatSession[];
+  activeSession?: ChatSession;
+  onCreateSession: () => string;
+  onSelectSession: (sessionId: string) => void;
+  onRenameSession: (sessionId: string, title: string) => void;
+  onDeleteSession: (sessionId: string) => void;
+  onUpdateMessages: (sessionId: string, messages: ChatMessage[]) => void;
+  onSetVaultMode: (sessionId: string, useVault: boolean) => void;
+  meetings: MeetingData[];
+  onOpenMeeting: (meetingId: string) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ agent, userSettings, history, onUpdateHistory }) => {
+// Numbers cited as [n] in a reply
+const citedNumbers = (text: string) => new Set(Array.from(text.matchAll(/\[(\d+)\]/g), m => Number(m[1])));
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({
+  agent,
+  userSettings,
+  sessions,
+  activeSession,
+  onCreateSession,
+  onSelectSession,
+  onRenameSession,
+  onDeleteSession,
+  onUpdateMessages,
+  onSetVaultMode,
+  meetings,
+  onOpenMeeting
+}) => {
+  const history = activeSession?.messages || [];
   const [input, setInput] = useState('');
+  const [renamingSessionId, setRenamingSessionId] = useState<string | null>(null);
+  const [renameInput, setRenameInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isSearchingVault, setIsSearchingVault] = useState(false);
+  // Vault mode of the open session; kept here too so it can be chosen before the session exists
+  const [useVault, setUseVault] = useState(!!activeSession?.useVault);
+  // Text of the reply currently being streamed, null when no reply is pending
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const pendingSessionRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -23,12 +61,68 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ agent, userSettings, hist
 
   useEffect(() => {
     scrollToBottom();
-  }, [history, isLoading]);
+  }, [history, isLoading, streamingText]);
+
+  // Switching to another session (or agent) stops the pending reply; the partial text is still saved
+  useEffect(() => {
+    if (pendingSessionRef.current && pendingSessionRef.current !== activeSession?.id) {
+      abortRef.current?.abort();
+    }
+  }, [activeSession?.id]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    setUseVault(!!activeSession?.useVault);
+  }, [activeSession?.id]);
+
+  const toggleVault = () => {
+    setUseVault(!useVault);
+    if (activeSession) onSetVaultMode(activeSession.id, !useVault);
+  };
+
+  const startRenaming = (session: ChatSession) => {
+    setRenamingSessionId(session.id);
+    setRenameInput(session.title);
+  };
+
+  const saveRename = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (renamingSessionId && renameInput.trim()) {
+      onRenameSession(renamingSessionId, renameInput.trim());
+    }
+    setRenamingSessionId(null);
+  };
+
+  const handleDeleteSession = (session: ChatSession) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  const autoTitle = async (sessionId: string, messages: ChatMessage[]) => {
+    try {
+      const title = await generateChatTitle(agent, messages, userSettings);
+      if (title) onRenameSession(sessionId, title);
+    } catch (error) {
+      console.error("Title generation failed:", error);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
 
   const handleSend = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
+    // Sessions are created lazily, on the first message
+    const sessionId = activeSession?.id || onCreateSession();
+    if (!activeSession && useVault) onSetVaultMode(sessionId, true);
+    const isFirstExchange = history.length === 0 && (activeSession?.title || DEFAULT_SESSION_TITLE) === DEFAULT_SESSION_TITLE;
     const userMsg: ChatMessage = {
       id: uuidv4(),
       role: 'user',
@@ -37,103 +131,245 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ agent, userSettings, hist
     };
 
     const newHistory = [...history, userMsg];
-    onUpdateHistory(newHistory);
+    onUpdateMessages(sessionId, newHistory);
     setInput('');
     setIsLoading(true);
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    pendingSessionRef.current = sessionId;
+    let responseText = '';
+    let sources: VaultSource[] | undefined;
 
     try {
-      // Determine which key to use based on provider
-      let apiKey = '';
-      if (agent.provider === 'google') apiKey = userSettings.apiKeys.google;
-      else if (agent.provider === 'openai') apiKey = userSettings.apiKeys.openai;
-      else if (agent.provider === 'anthropic') apiKey = userSettings.apiKeys.anthropic;
+      if (useVault) {
+        setIsSearchingVault(true);
+        sources = await searchVault(userMsg.content, meetings, getEmbedder(userSettings));
+        setIsSearchingVault(false);
+      }
 
-      const responseText = await chatWithAgent(agent, newHistory, userMsg.content, apiKey);
-      
+      const stream = sources
+        ? streamVaultChatWithAgent(agent, history, userMsg.content, sources, userSettings, controller.signal)
+        : streamChatWithAgent(agent, history, userMsg.content, userSettings, controller.signal);
+      for await (const chunk of stream) {
+        responseText += chunk;
+        setStreamingText(responseText);
+      }
+
+      // Only the passages the reply actually cites are linked
+      const cited = citedNumbers(responseText);
       const botMsg: ChatMessage = {
         id: uuidv4(),
         role: 'model',
-        content: responseText,
-        timestamp: Date.now()
+        content: responseText || "No response generated.",
+        timestamp: Date.now(),
+        ...(sources ? { sources: sources.filter(s => cited.has(s.number)) } : {})
       };
       
-      onUpdateHistory([...newHistory, botMsg]);
+      onUpdateMessages(sessionId, [...newHistory, botMsg]);
+      if (isFirstExchange) autoTitle(sessionId, [userMsg, botMsg]);
 
     } catch (error) {
-      const errorMsg: ChatMessage = {
-        id: uuidv4(),
-        role: 'model',
-        content: "I encountered an error connecting to the service. Please check your API Keys in settings.",
-        timestamp: Date.now()
-      };
-      onUpdateHistory([...newHistory, errorMsg]);
+      if (controller.signal.aborted) {
+        // Stopped by the user: keep whatever arrived so far
+        if (responseText) {
+          onUpdateMessages(sessionId, [...newHistory, { id: uuidv4(), role: 'model', content: responseText, timestamp: Date.now() }]);
+        }
+      } else {
+        console.error("Chat Error:", error);
+        const errorMsg: ChatMessage = {
+          id: uuidv4(),
+          role: 'model',
+          content: `${responseText ? `${responseText}\n\n` : ''}I encountered an error connecting to the service. Please check your API Keys in settings.\n\n${(error as Error).message}`,
+          timestamp: Date.now()
+        };
+        onUpdateMessages(sessionId, [...newHistory, errorMsg]);
+      }
     } finally {
+      abortRef.current = null;
+      pendingSessionRef.current = null;
+      setStreamingText(null);
       setIsLoading(false);
+      setIsSearchingVault(false);
     }
   };
 
   return (
-    <div className="flex flex-col h-full bg-slate-50/50">
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {history.length === 0 && (
-          <div className="flex flex-col items-center justify-center h-full text-slate-400 opacity-60">
-             <div className="text-6xl mb-4">{agent.icon}</div>
-             <p>Start chatting with {agent.name}...</p>
-          </div>
-        )}
+    <div className="flex h-full">
+      {/* Sessions */}
+      <div className="hidden md:flex w-64 bg-white border-r border-slate-200 flex-col shrink-0">
+        <div className="p-3 border-b border-slate-100">
+          <button 
+            onClick={() => onCreateSession()}
+            className="w-full py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 transition-colors"
+          >
+            + New Chat
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1">
+          {sessions.length === 0 && (
+            <p className="text-xs text-slate-400 text-center p-4">No conversations with {agent.name} yet.</p>
+          )}
+          {sessions.map(session => (
+            <div 
+              key={session.id}
+              onClick={() => onSelectSession(session.id)}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer transition-colors ${activeSession?.id === session.id ? 'bg-brand-50 text-brand-700' : 'text-slate-600 hover:bg-slate-50'}`}
+            >
+              {renamingSessionId === session.id ? (
+                <form onSubmit={saveRename} className="flex-1 min-w-0">
+                  <input 
+                    autoFocus
+                    type="text"
+                    value={renameInput}
+                    onChange={e => setRenameInput(e.target.value)}
+                    onBlur={() => saveRename()}
+                    onClick={e => e.stopPropagation()}
+                    className="w-full text-sm bg-transparent border-b border-brand-500 outline-none"
+                  />
+                </form>
+              ) : (
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{session.title}</div>
+                  <div className="text-[10px] text-slate-400">{new Date(session.updatedAt).toLocaleDateString()}</div>
+                </div>
+              )}
+              <button 
+                onClick={e => { e.stopPropagation(); startRenaming(session); }}
+                className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-brand-600 p-1 transition-all"
+                title="Rename"
+              >
+                <PencilIcon className="w-3 h-3" />
+              </button>
+              <button 
+                onClick={e => { e.stopPropagation(); handleDeleteSession(session); }}
+                className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 p-1 transition-all"
+                title="Delete"
+              >
+                <TrashIcon className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col h-full min-w-0 bg-slate-50/50">
+        {/* Messages Area */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {history.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-full text-slate-400 opacity-60">
+               <div className="text-6xl mb-4">{agent.icon}</div>
+               <p>Start chatting with {agent.name}...</p>
+            </div>
+          )}
         
-        {history.map(msg => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-             <div className={`max-w-[80%] rounded-2xl p-4 shadow-sm text-sm leading-relaxed whitespace-pre-wrap ${
-               msg.role === 'user' 
-                ? 'bg-brand-600 text-white rounded-br-none' 
-                : 'bg-white text-slate-700 border border-slate-200 rounded-bl-none'
-             }`}>
-               {msg.role === 'model' && (
+          {history.map(msg => (
+            <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+               <div className={`max-w-[80%] rounded-2xl p-4 shadow-sm text-sm leading-relaxed ${
+                 msg.role === 'user' 
+                  ? 'bg-brand-600 text-white rounded-br-none' 
+                  : 'bg-white text-slate-700 border border-slate-200 rounded-bl-none'
+               }`}>
+                 {msg.role === 'model' && (
+                   <div className="flex items-center gap-2 mb-2 text-xs font-bold text-slate-400 uppercase">
+                     <RobotIcon className="w-3 h-3" /> {agent.name}
+                   </div>
+                 )}
+                 {msg.role === 'model' 
+                   ? <MarkdownView source={msg.content} />
+                   : <p className="whitespace-pre-wrap">{msg.content}</p>}
+                 {msg.sources && msg.sources.length > 0 && (
+                   <div className="mt-3 pt-3 border-t border-slate-100 space-y-1">
+                     <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">From your meetings</p>
+                     {msg.sources.map(source => (
+                       <button
+                         key={source.number}
+                         onClick={() => onOpenMeeting(source.meetingId)}
+                         disabled={!meetings.some(m => m.id === source.meetingId)}
+                         className="w-full flex items-baseline gap-2 text-left text-xs p-2 rounded-lg bg-slate-50 hover:bg-brand-50 disabled:opacity-50 disabled:hover:bg-slate-50 transition-colors"
+                         title={source.text}
+                       >
+                         <span className="shrink-0 font-mono text-brand-600">[{source.number}]</span>
+                         <span className="min-w-0 truncate">
+                           <span className="font-semibold text-slate-700">{source.meetingTitle}</span>
+                           <span className="text-slate-400"> · {new Date(source.meetingDate).toLocaleDateString()} · {source.field === 'report' ? 'Report' : `Transcript${source.start !== undefined ? ` ${formatTimestamp(source.start)}` : ''}`}</span>
+                         </span>
+                       </button>
+                     ))}
+                   </div>
+                 )}
+               </div>
+            </div>
+          ))}
+          {streamingText && (
+            <div className="flex justify-start">
+               <div className="max-w-[80%] rounded-2xl p-4 shadow-sm text-sm leading-relaxed bg-white text-slate-700 border border-slate-200 rounded-bl-none">
                  <div className="flex items-center gap-2 mb-2 text-xs font-bold text-slate-400 uppercase">
                    <RobotIcon className="w-3 h-3" /> {agent.name}
                  </div>
-               )}
-               {msg.content}
-             </div>
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex justify-start">
-             <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-4 flex gap-1">
-               <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
-               <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-100"></div>
-               <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-200"></div>
-             </div>
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+                 <MarkdownView source={streamingText} />
+                 <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse"></span>
+               </div>
+            </div>
+          )}
+          {isLoading && !streamingText && (
+            <div className="flex justify-start">
+               <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-4 flex items-center gap-1">
+                 {isSearchingVault && <span className="text-xs text-slate-400 mr-2">Searching your meetings</span>}
+                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
+                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-100"></div>
+                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-200"></div>
+               </div>
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
 
-      {/* Input Area */}
-      <div className="p-4 bg-white border-t border-slate-200">
-        <form onSubmit={handleSend} className="relative max-w-4xl mx-auto">
-          <input
-            type="text"
-            value={input}
-            onChange={e => setInput(e.target.value)}
-            placeholder={`Message ${agent.name}...`}
-            className="w-full pl-4 pr-12 py-3 bg-slate-100 border-none rounded-xl focus:ring-2 focus:ring-brand-500 outline-none text-slate-700"
-            disabled={isLoading}
-          />
-          <button 
-            type="submit" 
-            disabled={!input.trim() || isLoading}
-            className="absolute right-2 top-2 p-1.5 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 transition-colors"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
-              <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A1.5 1.5 0 005.135 9.25h6.115a.75.75 0 010 1.5H5.135a1.5 1.5 0 00-1.442 1.086l-1.414 4.926a.75.75 0 00.826.95 28.896 28.896 0 0015.293-7.154.75.75 0 000-1.115A28.897 28.897 0 003.105 2.289z" />
-            </svg>
-          </button>
-        </form>
-        <div className="text-center mt-2 text-[10px] text-slate-400">
-          Powered by {agent.provider} ({agent.modelId})
+        {/* Input Area */}
+        <div className="p-4 bg-white border-t border-slate-200">
+          <form onSubmit={handleSend} className="relative max-w-4xl mx-auto">
+            <input
+              type="text"
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              placeholder={useVault ? `Ask ${agent.name} about your meetings...` : `Message ${agent.name}...`}
+              className="w-full pl-4 pr-12 py-3 bg-slate-100 border-none rounded-xl focus:ring-2 focus:ring-brand-500 outline-none text-slate-700"
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <button 
+                type="button" 
+                onClick={handleStop}
+                className="absolute right-2 top-2 p-1.5 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+                title="Stop generating"
+              >
+                <StopIcon className="w-5 h-5" />
+              </button>
+            ) : (
+              <button 
+                type="submit" 
+                disabled={!input.trim()}
+                className="absolute right-2 top-2 p-1.5 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                  <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A1.5 1.5 0 005.135 9.25h6.115a.75.75 0 010 1.5H5.135a1.5 1.5 0 00-1.442 1.086l-1.414 4.926a.75.75 0 00.826.95 28.896 28.896 0 0015.293-7.154.75.75 0 000-1.115A28.897 28.897 0 003.105 2.289z" />
+                </svg>
+              </button>
+            )}
+          </form>
+          <div className="flex justify-center items-center gap-3 mt-2 text-[10px] text-slate-400">
+            <button
+              type="button"
+              onClick={toggleVault}
+              disabled={isLoading}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded-full border transition-colors ${useVault ? 'bg-brand-50 border-brand-200 text-brand-700 font-bold' : 'border-slate-200 hover:text-slate-600'}`}
+              title="Answer from your recorded meetings"
+            >
+              <ArchiveIcon className="w-3 h-3" /> {useVault ? 'Searching meetings' : 'Search meetings'}
+            </button>
+            <span>Powered by {agent.provider} ({agent.modelId})</span>
+          </div>
         </div>
       </div>
     </div>
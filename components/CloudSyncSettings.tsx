@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { SyncProviderId, SyncSettings, UserSettings } from '../types';
+import { SyncChoice, SyncStatus, formatLastSync } from '../services/syncService';
+import { SYNC_PROVIDER_LABELS } from '../services/syncAdapter';
+import { isLocalFolderSupported } from '../services/localFolderSync';
+
+interface CloudSyncSettingsProps {
+  settings: UserSettings;
+  isKeysLocked: boolean;
+  status: SyncStatus;
+  folderName: string | null;
+  onChange: (sync: SyncSettings | undefined) => void;
+  onChangeWebdavPassword: (password: string) => void;
+  onConnect: () => Promise<void>; // Drive sign-in or folder choice, from a click
+  onSyncNow: () => void;
+  onResolveConflict: (key: string, choice: SyncChoice) => void;
+}
+
+const DEFAULT_SYNC: SyncSettings = { provider: 'googleDrive', conflictStrategy: 'newest', autoSyncMinutes: 15 };
+
+const AUTO_SYNC_OPTIONS = [
+  { minutes: 5, label: 'Every 5 minutes' },
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 0, label: 'Only when I click Sync now' },
+];
+
+const describeSide = (deleted: boolean, modifiedAt: number) =>
+  deleted ? `deleted ${formatLastSync(modifiedAt)}` : `changed ${formatLastSync(modifiedAt)}`;
+
+const inputClass = "w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-100";
+
+const CloudSyncSettings: React.FC<CloudSyncSettingsProps> = ({
+  settings,
+  isKeysLocked,
+  status,
+  folderName,
+  onChange,
+  onChangeWebdavPassword,
+  onConnect,
+  onSyncNow,
+  onResolveConflict
+}) => {
+  const [isConnecting, setIsConnecting] = useState(false);
+  const sync = settings.sync;
+
+  const update = (changes: Partial<SyncSettings>) => onChange({ ...(sync || DEFAULT_SYNC), ...changes });
+
+  const handleConnect = async () => {
+    setIsConnecting(true);
+    try {
+      await onConnect();
+    } catch (err) {
+      // Closing the folder picker isn't an error worth reporting
+      if ((err as Error).name === 'AbortError') return;
+      console.error("Sync connection failed:", err);
+      alert(`Could not connect: ${(err as Error).message}`);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisable = () => {
+    if (window.confirm("Turn sync off? Your data stays on this device and in the remote, but they won't be kept in step anymore.")) {
+      onChange(undefined);
+    }
+  };
+
+  if (!sync) {
+    return (
+      <div className="p-6 bg-slate-50 rounded-xl border border-slate-200">
+        <h4 className="font-bold text-slate-800 mb-2">Sync</h4>
+        <p className="text-sm text-slate-500 mb-4">Keep meetings, recordings, agents and chats in step across your devices through Google Drive, a WebDAV server or a local folder.</p>
+        <button
+          onClick={() => update({})}
+          className="px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 transition-colors"
+        >
+          Set up sync
+        </button>
+      </div>
+    );
+  }
+
+  const isConnected =
+    sync.provider === 'googleDrive' ? settings.googleDriveConnected :
+    sync.provider === 'localFolder' ? !!folderName :
+    !!sync.webdavUrl;
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-xl border border-slate-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-slate-800">Sync</h4>
+        <button onClick={handleDisable} className="text-xs text-slate-400 hover:text-red-500">Turn off</button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-slate-700 mb-1">Sync with</label>
+        <select
+          value={sync.provider}
+          onChange={e => update({ provider: e.target.value as SyncProviderId })}
+          className={inputClass}
+        >
+          {(Object.keys(SYNC_PROVIDER_LABELS) as SyncProviderId[]).map(id => (
+            <option key={id} value={id} disabled={id === 'localFolder' && !isLocalFolderSupported()}>
+              {SYNC_PROVIDER_LABELS[id]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {sync.provider === 'googleDrive' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-slate-700">OAuth client ID</label>
+          <input
+            value={sync.googleClientId || ''}
+            onChange={e => update({ googleClientId: e.target.value.trim() })}
+            placeholder="1234-abc.apps.googleusercontent.com"
+            className={inputClass}
+          />
+          <p className="text-xs text-slate-400">A web client from your Google Cloud project, with this site as an authorized origin. Data goes to the app's hidden folder in your Drive.</p>
+          <button
+            onClick={handleConnect}
+            disabled={!sync.googleClientId || isConnecting}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-colors"
+          >
+            {settings.googleDriveConnected ? 'Reconnect Google Drive' : 'Connect Google Drive'}
+          </button>
+        </div>
+      )}
+
+      {sync.provider === 'webdav' && (
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-slate-700">Folder URL</label>
+          <input
+            value={sync.webdavUrl || ''}
+            onChange={e => update({ webdavUrl: e.target.value.trim() })}
+            placeholder="https://cloud.example.com/remote.php/dav/files/me/nexus"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              value={sync.webdavUsername || ''}
+              onChange={e => update({ webdavUsername: e.target.value })}
+              placeholder="Username"
+              className={inputClass}
+            />
+            <input
+              type="password"
+              value={settings.apiKeys.webdavPassword || ''}
+              onChange={e => onChangeWebdavPassword(e.target.value)}
+              disabled={isKeysLocked}
+              placeholder={isKeysLocked ? "Locked" : "Password or app token"}
+              className={inputClass}
+            />
+          </div>
+          <p className="text-xs text-slate-400">The server has to allow requests from this site (CORS). The password is protected like your API keys.</p>
+        </div>
+      )}
+
+      {sync.provider === 'localFolder' && (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-600">{folderName ? <>Folder: <span className="font-medium">{folderName}</span></> : 'No folder chosen yet.'}</p>
+          <p className="text-xs text-slate-400">Pick a folder that Dropbox, OneDrive or Syncthing mirrors to sync through it.</p>
+          <button
+            onClick={handleConnect}
+            disabled={isConnecting}
+            className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-colors"
+          >
+            {folderName ? 'Choose another folder' : 'Choose folder'}
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">When both sides changed</label>
+          <select
+            value={sync.conflictStrategy}
+            onChange={e => update({ conflictStrategy: e.target.value as SyncSettings['conflictStrategy'] })}
+            className={inputClass}
+          >
+            <option value="newest">Keep the newest</option>
+            <option value="ask">Ask me</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-700 mb-1">Sync automatically</label>
+          <select
+            value={sync.autoSyncMinutes}
+            onChange={e => update({ autoSyncMinutes: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {AUTO_SYNC_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          onClick={onSyncNow}
+          disabled={!isConnected || status.phase === 'syncing'}
+          className="px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 disabled:opacity-50 transition-colors"
+        >
+          Sync now
+        </button>
+        <span className={`text-xs ${status.phase === 'error' ? 'text-red-600' : 'text-slate-500'}`}>
+          {status.phase === 'syncing' ? `Syncing${status.progress ? ` ${status.progress.done}/${status.progress.total}` : ''}...` :
+           status.phase === 'error' ? status.error :
+           status.lastSyncAt ? `Last synced ${formatLastSync(status.lastSyncAt)}` : 'Not synced yet'}
+        </span>
+      </div>
+
+      {status.conflicts.length > 0 && (
+        <div className="border-t border-slate-200 pt-4">
+          <h5 className="text-sm font-bold text-amber-700 mb-2">Changed on both sides ({status.conflicts.length})</h5>
+          <ul className="space-y-2">
+            {status.conflicts.map(conflict => (
+              <li key={conflict.key} className="flex items-center justify-between gap-2 p-2 bg-white rounded-lg border border-amber-100">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-700 truncate">{conflict.label}</p>
+                  <p className="text-xs text-slate-400">
+                    Here {describeSide(conflict.localDeleted, conflict.localModifiedAt)}, remote {describeSide(conflict.remoteDeleted, conflict.remoteModifiedAt)}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => onResolveConflict(conflict.key, 'local')}
+                    disabled={status.phase === 'syncing'}
+                    className="px-2 py-1 text-xs font-medium rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Keep this device's
+                  </button>
+                  <button
+                    onClick={() => onResolveConflict(conflict.key, 'remote')}
+                    disabled={status.phase === 'syncing'}
+                    className="px-2 py-1 text-xs font-medium rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    Keep remote
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {status.skipped.length > 0 && (
+        <div className="border-t border-slate-200 pt-4">
+          <h5 className="text-sm font-bold text-red-700 mb-2">Couldn't be read from the remote ({status.skipped.length})</h5>
+          <ul className="space-y-1">
+            {status.skipped.map(item => (
+              <li key={item.key} className="p-2 bg-white rounded-lg border border-red-100">
+                <p className="text-sm font-medium text-slate-700 truncate">{item.label}</p>
+                <p className="text-xs text-slate-400">{item.reason}. Another device may need updating; it is tried again on every sync.</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloudSyncSettings;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { MeetingData } from '../types';
+import { DownloadIcon } from './Icons';
+import { EXPORT_FORMATS, ExportFormat, canExport, exportMeetings } from '../services/exportService';
+
+interface ExportDialogProps {
+  meetings: MeetingData[];
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ meetings, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+
+  const exportableCount = meetings.filter(m => canExport(m, format)).length;
+
+  const handleExport = () => {
+    const skipped = exportMeetings(meetings, format);
+    if (skipped.length > 0 && exportableCount > 0) {
+      alert(`Skipped ${skipped.length} meeting(s) without the needed content:\n${skipped.join('\n')}`);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800">
+            Export {meetings.length === 1 ? `"${meetings[0].title}"` : `${meetings.length} meetings`}
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-2">
+          {EXPORT_FORMATS.map(f => (
+            <label 
+              key={f.id}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${format === f.id ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-brand-200'}`}
+            >
+              <input type="radio" className="mt-1" checked={format === f.id} onChange={() => setFormat(f.id)} />
+              <span>
+                <span className="block text-sm font-medium text-slate-800">{f.label}</span>
+                <span className="block text-xs text-slate-500">{f.description}</span>
+              </span>
+            </label>
+          ))}
+          {exportableCount < meetings.length && (
+            <p className="text-xs text-amber-600 pt-2">
+              {exportableCount === 0
+                ? 'None of the selected meetings have the content for this format.'
+                : `${meetings.length - exportableCount} of ${meetings.length} meetings will be skipped (no ${format === 'srt' || format === 'vtt' ? 'timestamped transcript' : 'report'}).`}
+            </p>
+          )}
+          {meetings.length > 1 && (format === 'markdown' || format === 'srt' || format === 'vtt') && (
+            <p className="text-xs text-slate-400">Several files are downloaded together as a ZIP archive.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+            Cancel
+          </button>
+          <button 
+            onClick={handleExport}
+            disabled={exportableCount === 0}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            <DownloadIcon className="w-4 h-4" /> Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,59 @@
+import React, { useRef, useState } from 'react';
+import { UploadIcon } from './Icons';
+import { ACCEPTED_EXTENSIONS } from '../services/importService';
+
+interface FileImporterProps {
+  onImport: (files: File[]) => Promise<void>;
+}
+
+const FileImporter: React.FC<FileImporterProps> = ({ onImport }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0 || isImporting) return;
+    setIsImporting(true);
+    try {
+      await onImport(files);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    importFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(e.target.files || []));
+    e.target.value = ''; // allow picking the same file again
+  };
+
+  return (
+    <div
+      onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      onClick={() => inputRef.current?.click()}
+      className={`w-full flex items-center justify-center gap-2 p-3 rounded-xl border-2 border-dashed text-xs cursor-pointer transition-colors ${
+        isDragging ? 'border-brand-400 bg-brand-50 text-brand-600' : 'border-slate-200 text-slate-500 hover:border-brand-300 hover:text-brand-600'
+      }`}
+    >
+      <UploadIcon className="w-4 h-4" />
+      <span>{isImporting ? 'Reading files...' : 'Drop audio or video files here, or click to import'}</span>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept={`audio/*,video/*,${ACCEPTED_EXTENSIONS}`}
+        onChange={handleChange}
+        className="hidden"
+      />
+    </div>
+  );
+};
+
+export default FileImporter;
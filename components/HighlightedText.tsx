@@ -0,0 +1,30 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Renders text with every occurrence of the search terms wrapped in <mark>.
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const active = terms.filter(Boolean);
+  if (active.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${active.map(escapeRegExp).join('|')})`, 'gi');
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-yellow-200 text-inherit rounded px-0.5">{part}</mark>
+        : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/keyEncryptionService';
+
+interface KeyProtectionSettingsProps {
+  isProtected: boolean;
+  isLocked: boolean;
+  autoLockMinutes: number;
+  onProtect: (passphrase: string) => Promise<void>; // also changes an existing passphrase
+  onUnprotect: () => void;
+  onLock: () => void;
+  onUnlock: () => void;
+  onChangeAutoLock: (minutes: number) => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const KeyProtectionSettings: React.FC<KeyProtectionSettingsProps> = ({
+  isProtected,
+  isLocked,
+  autoLockMinutes,
+  onProtect,
+  onUnprotect,
+  onLock,
+  onUnlock,
+  onChangeAutoLock
+}) => {
+  const [isSettingPassphrase, setIsSettingPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const passphraseError =
+    passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.` :
+    confirmation && confirmation !== passphrase ? "Passphrases don't match." : null;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphraseError || !passphrase || confirmation !== passphrase) return;
+    setIsSaving(true);
+    try {
+      await onProtect(passphrase);
+      setIsSettingPassphrase(false);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (err) {
+      console.error("Key encryption failed:", err);
+      alert(`Could not encrypt the keys: ${(err as Error).message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnprotect = () => {
+    if (window.confirm("Remove the passphrase? Your API keys will be stored unencrypted in this browser.")) {
+      onUnprotect();
+    }
+  };
+
+  return (
+    <div className="p-5 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-bold text-slate-800 text-sm">{isProtected ? (isLocked ? '🔒 Keys are locked' : '🔓 Keys are unlocked') : 'Passphrase protection'}</h4>
+        {isProtected && (
+          isLocked
+            ? <button onClick={onUnlock} className="text-xs font-bold text-brand-600 hover:text-brand-800">Unlock</button>
+            : <button onClick={onLock} className="text-xs font-bold text-brand-600 hover:text-brand-800">Lock now</button>
+        )}
+      </div>
+      <p className="text-xs text-slate-500">
+        {isProtected
+          ? "Keys are stored encrypted with your passphrase and have to be unlocked after starting the app."
+          : "Encrypt your keys with a passphrase, so they are never stored in plain text."}
+      </p>
+
+      {isProtected && !isLocked && (
+        <div className="flex items-center gap-2 text-xs text-slate-600">
+          <label htmlFor="auto-lock">Lock automatically</label>
+          <select
+            id="auto-lock"
+            value={autoLockMinutes}
+            onChange={e => onChangeAutoLock(Number(e.target.value))}
+            className="px-2 py-1 border border-slate-300 rounded-lg bg-white"
+          >
+            {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.label}</option>)}
+          </select>
+          <span className="text-slate-400">of inactivity</span>
+        </div>
+      )}
+
+      {isSettingPassphrase ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <input
+            autoFocus
+            type="password"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+            placeholder={isProtected ? "New passphrase" : "Passphrase"}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={e => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+          {passphraseError && <p className="text-xs text-red-600">{passphraseError}</p>}
+          <p className="text-[10px] text-slate-400">There is no way to recover a forgotten passphrase; the keys would have to be entered again.</p>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setIsSettingPassphrase(false)} className="px-3 py-1.5 text-xs text-slate-500 hover:text-slate-700">Cancel</button>
+            <button
+              type="submit"
+              disabled={!!passphraseError || !passphrase || confirmation !== passphrase || isSaving}
+              className="px-3 py-1.5 bg-brand-600 text-white rounded-lg text-xs font-bold hover:bg-brand-700 disabled:opacity-50"
+            >
+              {isSaving ? 'Encrypting...' : 'Save Passphrase'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        !isLocked && (
+          <div className="flex gap-3">
+            <button onClick={() => setIsSettingPassphrase(true)} className="text-xs font-bold text-brand-600 hover:text-brand-800">
+              {isProtected ? 'Change passphrase' : 'Set a passphrase'}
+            </button>
+            {isProtected && (
+              <button onClick={handleUnprotect} className="text-xs font-medium text-slate-400 hover:text-red-600">Remove passphrase</button>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default KeyProtectionSettings;
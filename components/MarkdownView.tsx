@@ -0,0 +1,128 @@
+import React, { useMemo } from 'react';
+import { MarkdownBlock, MarkdownInline, isSafeUrl, parseInline, parseMarkdown, toggleTaskItem } from '../services/markdownService';
+import HighlightedText from './HighlightedText';
+
+interface MarkdownViewProps {
+  source: string;
+  onChange?: (source: string) => void; // enables task checkboxes
+  highlightTerms?: string[];
+  className?: string;
+}
+
+const HEADING_STYLES = [
+  'text-xl font-bold text-slate-800 mt-6 mb-3',
+  'text-lg font-bold text-slate-800 mt-6 mb-2',
+  'text-base font-bold text-slate-800 mt-4 mb-2',
+  'text-sm font-bold text-slate-700 mt-4 mb-1',
+  'text-sm font-semibold text-slate-700 mt-3 mb-1',
+  'text-xs font-semibold text-slate-500 uppercase mt-3 mb-1',
+];
+
+const ALIGN_CLASS = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Inline: React.FC<{ nodes: MarkdownInline[]; terms: string[] }> = ({ nodes, terms }) => (
+  <>
+    {nodes.map((node, i) => {
+      switch (node.type) {
+        case 'text': return <HighlightedText key={i} text={node.text} terms={terms} />;
+        case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 text-[0.9em] font-mono text-slate-800">{node.text}</code>;
+        case 'strong': return <strong key={i} className="font-semibold"><Inline nodes={node.children} terms={terms} /></strong>;
+        case 'em': return <em key={i}><Inline nodes={node.children} terms={terms} /></em>;
+        case 'del': return <del key={i}><Inline nodes={node.children} terms={terms} /></del>;
+        case 'break': return <br key={i} />;
+        case 'link': return isSafeUrl(node.href)
+          ? <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-brand-600 underline hover:text-brand-900"><Inline nodes={node.children} terms={terms} /></a>
+          : <Inline key={i} nodes={node.children} terms={terms} />;
+      }
+    })}
+  </>
+);
+
+/**
+ * Inline-only Markdown (emphasis, code, links) for short texts such as transcript lines.
+ */
+export const MarkdownInlineText: React.FC<{ text: string; highlightTerms?: string[] }> = ({ text, highlightTerms = [] }) => (
+  <Inline nodes={parseInline(text)} terms={highlightTerms} />
+);
+
+const MarkdownView: React.FC<MarkdownViewProps> = ({ source, onChange, highlightTerms = [], className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  const renderText = (text: string) => <Inline nodes={parseInline(text)} terms={highlightTerms} />;
+
+  const renderBlocks = (items: MarkdownBlock[]): React.ReactNode => items.map((block, i) => {
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as 'h1';
+        return <Tag key={i} className={HEADING_STYLES[block.level - 1]}>{renderText(block.text)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={i} className="my-2">{renderText(block.text)}</p>;
+      case 'code':
+        return (
+          <pre key={i} className="my-3 p-3 rounded-lg bg-slate-900 text-slate-100 text-xs font-mono overflow-x-auto">
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'quote':
+        return <blockquote key={i} className="my-3 pl-3 border-l-4 border-slate-200 text-slate-500">{renderBlocks(block.children)}</blockquote>;
+      case 'rule':
+        return <hr key={i} className="my-4 border-slate-200" />;
+      case 'table':
+        return (
+          <div key={i} className="my-3 overflow-x-auto">
+            <table className="min-w-full text-sm border-collapse">
+              <thead>
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className={`px-3 py-2 border-b-2 border-slate-200 font-semibold text-slate-700 ${block.align[c] ? ALIGN_CLASS[block.align[c]!] : 'text-left'}`}>
+                      {renderText(cell)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="even:bg-slate-50">
+                    {row.map((cell, c) => (
+                      <td key={c} className={`px-3 py-2 border-b border-slate-100 align-top ${block.align[c] ? ALIGN_CLASS[block.align[c]!] : ''}`}>
+                        {renderText(cell)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case 'list': {
+        const isTaskList = block.items.some(item => item.task);
+        const listClass = `my-2 space-y-1 ${isTaskList ? 'list-none pl-1' : block.ordered ? 'list-decimal pl-6' : 'list-disc pl-6'}`;
+        const items = block.items.map((item, j) => (
+          <li key={j} className={item.task ? 'flex items-start gap-2' : ''}>
+            {item.task && (
+              <input
+                type="checkbox"
+                checked={item.task.checked}
+                disabled={!onChange}
+                onChange={() => onChange?.(toggleTaskItem(source, item.task!.line))}
+                className="mt-1 shrink-0 accent-brand-600"
+              />
+            )}
+            <div className={`min-w-0 ${item.task?.checked ? 'line-through text-slate-400' : ''}`}>
+              {renderText(item.text)}
+              {item.children.length > 0 && renderBlocks(item.children)}
+            </div>
+          </li>
+        ));
+        return block.ordered
+          ? <ol key={i} start={block.start} className={listClass}>{items}</ol>
+          : <ul key={i} className={listClass}>{items}</ul>;
+      }
+    }
+  });
+
+  return <div className={`text-sm leading-relaxed break-words ${className}`}>{renderBlocks(blocks)}</div>;
+};
+
+export default MarkdownView;
@@ -1,21 +1,51 @@
 
-import React, { useState, useRef } from 'react';
-import { MeetingData, MeetingStatus } from '../types';
-import { TagIcon, SparklesIcon, MicIcon, PencilIcon, TrashIcon } from './Icons';
-import { refineMeetingReport } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { Agent, MeetingData, MeetingStatus, ReportVersionSource, ReprocessOptions, UserSettings } from '../types';
+import { TagIcon, SparklesIcon, MicIcon, PencilIcon, TrashIcon, DownloadIcon } from './Icons';
+import { refineMeetingReport } from '../services/aiService';
+import { getSpeakers, renameSpeaker } from '../services/transcriptService';
+import TranscriptView from './TranscriptView';
+import ActionItemsEditor from './ActionItemsEditor';
+import MeetingFieldCards from './MeetingFieldCards';
+import ReprocessDialog from './ReprocessDialog';
+import MarkdownView from './MarkdownView';
+import ExportDialog from './ExportDialog';
+import ReportHistory from './ReportHistory';
+import MeetingQA from './MeetingQA';
+import { findSnippet } from '../services/searchService';
+import { getReportVersions, withReportVersion } from '../services/reportHistoryService';
+
+const SPEAKER_COLORS = [
+  'bg-sky-50 text-sky-700 border-sky-200',
+  'bg-amber-50 text-amber-700 border-amber-200',
+  'bg-emerald-50 text-emerald-700 border-emerald-200',
+  'bg-purple-50 text-purple-700 border-purple-200',
+  'bg-rose-50 text-rose-700 border-rose-200',
+  'bg-slate-100 text-slate-700 border-slate-200',
+];
 
 interface MeetingDetailProps {
   meeting: MeetingData;
+  agent: Agent;
+  userSettings: UserSettings;
+  searchTerms?: string[]; // vault search terms to highlight and jump to
   onClose: () => void;
   onUpdateTags: (tags: string[], suggestedTags?: string[]) => void;
-  onUpdateReport: (newReport: string) => void;
+  onUpdateReport: (newReport: string, source: ReportVersionSource, detail?: string) => void;
   onUpdateTitle: (newTitle: string) => void;
+  onUpdateMeeting: (updates: Partial<MeetingData>) => void;
   onDelete: () => void;
+  onReprocess: (options: ReprocessOptions) => void;
+  onCancelProcessing: () => void;
 }
 
-const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdateTags, onUpdateReport, onUpdateTitle, onDelete }) => {
+const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, agent, userSettings, searchTerms = [], onClose, onUpdateTags, onUpdateReport, onUpdateTitle, onUpdateMeeting, onDelete, onReprocess, onCancelProcessing }) => {
   const [newTag, setNewTag] = useState('');
-  const [activeTab, setActiveTab] = useState<'report' | 'transcript'>('report');
+  // Opened from a search: start on the tab that holds the first match
+  const [activeTab, setActiveTab] = useState<'report' | 'transcript' | 'ask'>(
+    () => findSnippet(meeting, searchTerms)?.field === 'transcription' ? 'transcript' : 'report'
+  );
+  const contentRef = useRef<HTMLDivElement>(null);
   
   // Title Editing State
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -25,10 +55,48 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
   const [isEditing, setIsEditing] = useState(false);
   const [editableReport, setEditableReport] = useState(meeting.report || '');
   
+  // Playback State (shared by both tabs so audio keeps playing when switching)
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [followPlayback, setFollowPlayback] = useState(true);
+
+  const [showReprocess, setShowReprocess] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
   // AI Refine State
   const [aiInstruction, setAiInstruction] = useState('');
   const [isRefining, setIsRefining] = useState(false);
 
+  const speakers = getSpeakers(meeting.segments || []);
+  const speakerColor = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  const handleRenameSpeaker = (speaker: string) => {
+    const name = window.prompt(`Rename "${speaker}" to:`, speaker)?.trim();
+    if (!name || name === speaker) return;
+
+    const updates = renameSpeaker(meeting, speaker, name);
+    if (updates.report !== undefined) {
+      onUpdateMeeting({ ...updates, ...withReportVersion(meeting, updates.report, 'manual', `Renamed ${speaker} to ${name}`) });
+      setEditableReport(updates.report);
+    } else {
+      onUpdateMeeting(updates);
+    }
+  };
+
+  useEffect(() => {
+    if (searchTerms.length === 0) return;
+    contentRef.current?.querySelector('mark')?.scrollIntoView({ block: 'center' });
+  }, [activeTab]);
+
+  const handleSeek = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    setCurrentTime(seconds);
+    audioRef.current.play().catch(() => {});
+  };
+
   const handleAddTag = (e: React.FormEvent) => {
     e.preventDefault();
     if (newTag.trim() && !meeting.tags.includes(newTag.trim())) {
@@ -48,7 +116,7 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
   };
 
   const handleSaveManualEdit = () => {
-    onUpdateReport(editableReport);
+    onUpdateReport(editableReport, 'manual');
     setIsEditing(false);
   };
 
@@ -67,18 +135,27 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
       const newContent = await refineMeetingReport(
         meeting.report || '', 
         meeting.transcription || '', 
-        aiInstruction
+        aiInstruction,
+        agent,
+        userSettings
       );
-      onUpdateReport(newContent);
+      onUpdateReport(newContent, 'refine', aiInstruction.trim());
       setEditableReport(newContent);
       setAiInstruction('');
     } catch (err) {
-      alert("Failed to refine with AI");
+      console.error("Refinement Error:", err);
+      alert(`Failed to refine with AI: ${(err as Error).message}`);
     } finally {
       setIsRefining(false);
     }
   };
 
+  const handleReprocess = (options: ReprocessOptions) => {
+    setShowReprocess(false);
+    if (!options.keepReport) setIsEditing(false);
+    onReprocess(options);
+  };
+
   const startEditingTitle = () => {
     setTitleInput(meeting.title);
     setIsEditingTitle(true);
@@ -99,7 +176,30 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
   };
 
   return (
-    <div className="flex flex-col h-full bg-white animate-fade-in overflow-hidden">
+    <div className="relative flex flex-col h-full bg-white animate-fade-in overflow-hidden">
+      {showReprocess && (
+        <ReprocessDialog
+          meeting={meeting}
+          agents={userSettings.agents}
+          defaultAgentId={agent.id}
+          onConfirm={handleReprocess}
+          onClose={() => setShowReprocess(false)}
+        />
+      )}
+      {showExport && <ExportDialog meetings={[meeting]} onClose={() => setShowExport(false)} />}
+      {showHistory && (
+        <ReportHistory
+          versions={getReportVersions(meeting)}
+          currentReport={meeting.report || ''}
+          onRestore={(version) => {
+            onUpdateReport(version.report, 'restore', `Restored version from ${new Date(version.createdAt).toLocaleString()}`);
+            setEditableReport(version.report);
+            setShowHistory(false);
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Header */}
       <div className="flex justify-between items-start p-6 border-b border-slate-100 sticky top-0 bg-white/90 backdrop-blur-sm z-20">
         <div className="flex-1 min-w-0 mr-4">
@@ -145,10 +245,34 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
             <div className={`px-3 py-1 rounded-full text-xs font-bold border shrink-0 ${
               meeting.status === MeetingStatus.COMPLETED ? 'bg-green-50 text-green-700 border-green-200' : 
               meeting.status === MeetingStatus.PROCESSING ? 'bg-blue-50 text-blue-700 border-blue-200' : 
+              meeting.status === MeetingStatus.ERROR ? 'bg-red-50 text-red-700 border-red-200' : 
               'bg-slate-50 text-slate-600 border-slate-200'
             }`}>
               {meeting.status}
             </div>
+            {meeting.status === MeetingStatus.PROCESSING && (
+              <button 
+                onClick={onCancelProcessing}
+                className="px-3 py-1 rounded-full text-xs font-medium border border-slate-200 text-slate-600 hover:border-red-300 hover:text-red-600 transition-all"
+              >
+                {meeting.job?.state === 'queued' ? 'Remove from queue' : 'Cancel'}
+              </button>
+            )}
+            <button 
+              onClick={() => setShowReprocess(true)}
+              disabled={!meeting.audioBlob || meeting.status === MeetingStatus.PROCESSING}
+              className="px-3 py-1 rounded-full text-xs font-medium border border-slate-200 text-slate-600 hover:border-brand-300 hover:text-brand-600 disabled:opacity-50 disabled:pointer-events-none transition-all"
+              title={meeting.audioBlob ? "Run the recording through an agent again" : "The original audio is not available"}
+            >
+              ↻ Reprocess
+            </button>
+            <button 
+              onClick={() => setShowExport(true)}
+              className="p-2 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded-full transition-all"
+              title="Export Meeting"
+            >
+               <DownloadIcon className="w-5 h-5" />
+            </button>
             <button 
               onClick={handleDeleteConfirm}
               className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-all"
@@ -159,6 +283,20 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
         </div>
       </div>
 
+      {meeting.status === MeetingStatus.ERROR && (
+        <div className="flex items-center justify-between gap-4 px-6 py-3 bg-red-50 border-b border-red-100 text-sm text-red-700">
+          <span className="min-w-0 break-words"><span className="font-bold">Processing failed:</span> {meeting.error || "Unknown error."}</span>
+          {meeting.audioBlob && (
+            <button
+              onClick={() => setShowReprocess(true)}
+              className="shrink-0 font-bold hover:text-red-900"
+            >
+              Try again
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         {/* Main Content Area */}
         <div className="flex-1 flex flex-col min-w-0">
@@ -177,9 +315,36 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
             >
               Original Transcript
             </button>
+            <button 
+              onClick={() => setActiveTab('ask')}
+              className={`pb-3 px-4 text-sm font-medium border-b-2 transition-colors ${activeTab === 'ask' ? 'border-brand-500 text-brand-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+            >
+              Ask{meeting.questions?.length ? ` (${meeting.questions.length})` : ''}
+            </button>
           </div>
 
-          <div className="flex-1 overflow-y-auto p-6 relative bg-slate-50/30">
+          {meeting.audioUrl && (
+            <div className="flex items-center gap-3 px-6 py-2 border-b border-slate-100 bg-white">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider shrink-0">Original Audio</span>
+              <audio 
+                ref={audioRef}
+                controls 
+                className="flex-1 h-8" 
+                src={meeting.audioUrl}
+                onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+              />
+              {meeting.segments && meeting.segments.length > 0 && (
+                <label className="flex items-center gap-1 text-xs text-slate-500 shrink-0 cursor-pointer">
+                  <input type="checkbox" checked={followPlayback} onChange={e => setFollowPlayback(e.target.checked)} />
+                  Follow
+                </label>
+              )}
+            </div>
+          )}
+
+          <div ref={contentRef} className="flex-1 overflow-y-auto p-6 relative bg-slate-50/30">
             {activeTab === 'report' ? (
               <div className="max-w-3xl mx-auto space-y-4">
                 
@@ -207,6 +372,20 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
                   </div>
                 )}
 
+                {/* Template Fields */}
+                {!isEditing && meeting.fields && meeting.fields.length > 0 && (
+                  <MeetingFieldCards fields={meeting.fields} />
+                )}
+
+                {/* Action Items */}
+                {!isEditing && (
+                  <ActionItemsEditor 
+                    meetingId={meeting.id}
+                    items={meeting.actionItems || []}
+                    onChange={(actionItems) => onUpdateMeeting({ actionItems })}
+                  />
+                )}
+
                 {/* Report Content */}
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                    <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
@@ -214,9 +393,16 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
                        📝 Minutes
                      </h2>
                      {!isEditing ? (
-                       <button onClick={() => { setEditableReport(meeting.report || ''); setIsEditing(true); }} className="text-xs font-medium text-brand-600 hover:text-brand-800">
-                         Edit Manually
-                       </button>
+                       <div className="flex gap-3">
+                         {(meeting.reportVersions?.length || 0) > 1 && (
+                           <button onClick={() => setShowHistory(true)} className="text-xs font-medium text-slate-500 hover:text-slate-700">
+                             History ({meeting.reportVersions!.length})
+                           </button>
+                         )}
+                         <button onClick={() => { setEditableReport(meeting.report || ''); setIsEditing(true); }} className="text-xs font-medium text-brand-600 hover:text-brand-800">
+                           Edit Manually
+                         </button>
+                       </div>
                      ) : (
                        <div className="flex gap-2">
                          <button onClick={() => setIsEditing(false)} className="text-xs font-medium text-slate-500 hover:text-slate-700">Cancel</button>
@@ -233,34 +419,78 @@ const MeetingDetail: React.FC<MeetingDetailProps> = ({ meeting, onClose, onUpdat
                           onChange={(e) => setEditableReport(e.target.value)}
                         />
                       ) : (
-                        <div className="prose prose-slate prose-sm max-w-none whitespace-pre-wrap leading-relaxed">
-                          {meeting.report || "No report generated."}
-                        </div>
+                        meeting.report ? (
+                          <MarkdownView 
+                            source={meeting.report}
+                            onChange={(report) => onUpdateReport(report, 'manual')}
+                            highlightTerms={searchTerms}
+                            className="text-slate-700"
+                          />
+                        ) : (
+                          <p className="text-sm text-slate-400">No report generated.</p>
+                        )
                       )}
                    </div>
                 </div>
 
-                {meeting.audioUrl && (
-                  <div className="mt-8 pt-6 border-t border-slate-200">
-                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Original Audio</h3>
-                    <audio controls className="w-full h-8" src={meeting.audioUrl} />
-                  </div>
-                )}
               </div>
+            ) : activeTab === 'ask' ? (
+              <MeetingQA
+                meeting={meeting}
+                agent={agent}
+                userSettings={userSettings}
+                onUpdateQuestions={(questions) => onUpdateMeeting({ questions })}
+                onSeek={handleSeek}
+              />
             ) : (
               <div className="max-w-3xl mx-auto">
                  <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
-                    <p className="whitespace-pre-wrap text-sm text-slate-600 leading-relaxed font-mono">
-                      {meeting.transcription || "Transcription pending..."}
-                    </p>
+                    {meeting.segments && meeting.segments.length > 0 ? (
+                      <TranscriptView 
+                        segments={meeting.segments}
+                        currentTime={currentTime}
+                        followPlayback={followPlayback && isPlaying}
+                        speakerColor={speakerColor}
+                        onSeek={handleSeek}
+                        onRenameSpeaker={handleRenameSpeaker}
+                        highlightTerms={searchTerms}
+                      />
+                    ) : (
+                      meeting.transcription ? (
+                        <MarkdownView source={meeting.transcription} highlightTerms={searchTerms} className="text-slate-600" />
+                      ) : (
+                        <p className="text-sm text-slate-600">Transcription pending...</p>
+                      )
+                    )}
                  </div>
               </div>
             )}
           </div>
         </div>
 
-        {/* Sidebar: Tags */}
+        {/* Sidebar: Speakers & Tags */}
         <div className="w-72 bg-white border-l border-slate-100 flex flex-col shrink-0 p-6 space-y-6 overflow-y-auto">
+            {speakers.length > 0 && (
+              <div className="bg-slate-50 rounded-2xl border border-slate-100 p-5">
+                <h3 className="font-semibold text-slate-800 mb-4">🗣️ Speakers</h3>
+                <div className="space-y-2">
+                  {speakers.map(speaker => (
+                    <div key={speaker} className="flex items-center justify-between group">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-bold border truncate ${speakerColor(speaker)}`}>{speaker}</span>
+                      <button 
+                        onClick={() => handleRenameSpeaker(speaker)}
+                        className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-brand-600 transition-all p-1"
+                        title="Rename speaker"
+                      >
+                        <PencilIcon className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-[10px] text-slate-400 mt-3">Renaming updates the transcript and the report.</p>
+              </div>
+            )}
+
             {/* Tags */}
             <div className="bg-slate-50 rounded-2xl border border-slate-100 p-5">
               <h3 className="font-semibold text-slate-800 mb-4 flex items-center gap-2">
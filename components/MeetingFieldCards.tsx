@@ -0,0 +1,52 @@
+import React from 'react';
+import { MeetingField } from '../types';
+import { isEmptyFieldValue } from '../services/reportTemplateService';
+
+interface MeetingFieldCardsProps {
+  fields: MeetingField[];
+}
+
+const renderValue = (field: MeetingField) => {
+  const { value } = field;
+  if (isEmptyFieldValue(value)) return <span className="text-slate-400 italic">Not mentioned</span>;
+
+  switch (field.type) {
+    case 'list':
+      return (
+        <ul className="list-disc pl-4 space-y-0.5">
+          {(value as string[]).map((item, i) => <li key={i}>{item}</li>)}
+        </ul>
+      );
+    case 'boolean':
+      return value ? '✅ Yes' : '❌ No';
+    case 'date': {
+      const date = new Date(`${value}T00:00:00`);
+      return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+    }
+    case 'choice':
+      return <span className="inline-block px-2 py-0.5 rounded-full bg-brand-50 text-brand-700 border border-brand-100 text-xs font-bold">{String(value)}</span>;
+    case 'number':
+      return <span className="text-lg font-bold text-slate-800">{Number(value).toLocaleString()}</span>;
+    default:
+      return <span className="whitespace-pre-wrap">{String(value)}</span>;
+  }
+};
+
+/**
+ * The structured fields of a meeting (from the agent's report template), one card each.
+ */
+const MeetingFieldCards: React.FC<MeetingFieldCardsProps> = ({ fields }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+    {fields.map(field => (
+      <div
+        key={field.key}
+        className={`bg-white rounded-xl shadow-sm border border-slate-200 p-4 ${field.type === 'list' || field.type === 'text' ? 'sm:col-span-2' : ''}`}
+      >
+        <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2" title={field.description}>{field.label}</h3>
+        <div className="text-sm text-slate-700">{renderValue(field)}</div>
+      </div>
+    ))}
+  </div>
+);
+
+export default MeetingFieldCards;
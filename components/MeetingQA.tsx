@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Agent, MeetingData, MeetingQuestion, UserSettings } from '../types';
+import { askAboutMeeting } from '../services/aiService';
+import { formatTimestamp } from '../services/transcriptService';
+import { RobotIcon, TrashIcon } from './Icons';
+import MarkdownView from './MarkdownView';
+
+interface MeetingQAProps {
+  meeting: MeetingData;
+  agent: Agent;
+  userSettings: UserSettings;
+  onUpdateQuestions: (questions: MeetingQuestion[]) => void;
+  onSeek: (seconds: number) => void;
+}
+
+const MeetingQA: React.FC<MeetingQAProps> = ({ meeting, agent, userSettings, onUpdateQuestions, onSeek }) => {
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const questions = meeting.questions || [];
+
+  // The answer may arrive after other edits to the meeting, so append to the latest list
+  const questionsRef = useRef(questions);
+  questionsRef.current = questions;
+
+  const hasTranscript = !!(meeting.segments?.length || meeting.transcription);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [questions.length, pendingQuestion]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = input.trim();
+    if (!question || pendingQuestion) return;
+
+    setInput('');
+    setPendingQuestion(question);
+    try {
+      const answer = await askAboutMeeting(meeting, question, agent, userSettings);
+      onUpdateQuestions([...questionsRef.current, answer]);
+    } catch (err) {
+      console.error("Question Error:", err);
+      alert(`Failed to answer: ${(err as Error).message}`);
+      setInput(question);
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  const handleClear = () => {
+    if (window.confirm("Delete all questions and answers for this meeting?")) {
+      onUpdateQuestions([]);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-4">
+      {questions.length === 0 && !pendingQuestion && (
+        <div className="text-center text-slate-400 py-10">
+          <div className="text-4xl mb-3">{agent.icon}</div>
+          <p className="text-sm">
+            {hasTranscript
+              ? `Ask ${agent.name} anything about this meeting, e.g. "What was decided about the deadline?"`
+              : "Questions can be asked once the meeting has a transcript."}
+          </p>
+        </div>
+      )}
+
+      {questions.length > 0 && (
+        <div className="flex justify-end">
+          <button onClick={handleClear} className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-500">
+            <TrashIcon className="w-3 h-3" /> Clear conversation
+          </button>
+        </div>
+      )}
+
+      {questions.map(q => (
+        <div key={q.id} className="space-y-3">
+          <div className="flex justify-end">
+            <div className="max-w-[80%] rounded-2xl rounded-br-none p-4 shadow-sm text-sm bg-brand-600 text-white whitespace-pre-wrap">
+              {q.question}
+            </div>
+          </div>
+          <div className="flex justify-start">
+            <div className="max-w-[90%] rounded-2xl rounded-bl-none p-4 shadow-sm text-sm bg-white text-slate-700 border border-slate-200">
+              <div className="flex items-center gap-2 mb-2 text-xs font-bold text-slate-400 uppercase">
+                <RobotIcon className="w-3 h-3" /> {userSettings.agents.find(a => a.id === q.agentId)?.name || agent.name}
+              </div>
+              <MarkdownView source={q.answer} />
+              {q.citations.length > 0 && (
+                <div className="mt-3 pt-3 border-t border-slate-100 space-y-1.5">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Sources</p>
+                  {q.citations.map(c => (
+                    <button
+                      key={c.passage}
+                      onClick={() => c.start !== undefined && onSeek(c.start)}
+                      disabled={c.start === undefined || !meeting.audioUrl}
+                      className="w-full flex items-start gap-2 text-left text-xs p-2 rounded-lg bg-slate-50 hover:bg-brand-50 disabled:hover:bg-slate-50 transition-colors"
+                      title={c.start !== undefined && meeting.audioUrl ? "Play from here" : undefined}
+                    >
+                      <span className="shrink-0 font-mono text-brand-600">[{c.passage}]</span>
+                      {c.start !== undefined && <span className="shrink-0 font-mono text-slate-400">{formatTimestamp(c.start)}</span>}
+                      <span className="min-w-0 text-slate-600">
+                        {c.speaker && <span className="font-semibold">{c.speaker}: </span>}
+                        {c.text}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {pendingQuestion && (
+        <div className="space-y-3">
+          <div className="flex justify-end">
+            <div className="max-w-[80%] rounded-2xl rounded-br-none p-4 shadow-sm text-sm bg-brand-600 text-white whitespace-pre-wrap">
+              {pendingQuestion}
+            </div>
+          </div>
+          <div className="flex justify-start">
+            <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-4 flex gap-1">
+              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
+              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-100"></div>
+              <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-200"></div>
+            </div>
+          </div>
+        </div>
+      )}
+      <div ref={endRef} />
+
+      <form onSubmit={handleAsk} className="sticky bottom-0 flex gap-2 items-center bg-white rounded-xl shadow-sm border border-slate-200 p-1.5 pl-3">
+        <input
+          type="text"
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          placeholder={hasTranscript ? `Ask ${agent.name} about this meeting...` : "No transcript yet"}
+          disabled={!hasTranscript || !!pendingQuestion}
+          className="flex-1 bg-transparent border-none outline-none text-sm text-slate-700 placeholder:text-slate-400"
+        />
+        <button
+          type="submit"
+          disabled={!input.trim() || !hasTranscript || !!pendingQuestion}
+          className="px-4 py-1.5 bg-brand-600 text-white text-xs font-bold rounded-lg hover:bg-brand-700 disabled:opacity-50 transition-colors"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default MeetingQA;
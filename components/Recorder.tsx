@@ -1,13 +1,18 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { MicIcon, StopIcon } from './Icons';
+import { v4 as uuidv4 } from 'uuid';
+import { MicIcon, StopIcon, PauseIcon, PlayIcon } from './Icons';
+import { RECORDING_HEARTBEAT_MS, RecordingSession, saveRecordingSession, appendRecordingChunk, deleteRecordingSession } from '../services/storageService';
+
+// MediaRecorder hands over (and we persist) a chunk this often
+const TIMESLICE_MS = 5000;
 
 interface RecorderProps {
   onRecordingComplete: (blob: Blob, duration: number) => void;
-  isProcessing: boolean;
 }
 
-const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }) => {
+const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete }) => {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -15,26 +20,55 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const requestRef = useRef<number>();
-  const startTimeRef = useRef<number>(0);
+  // Recorded time = time of finished stretches + the one running since segmentStartRef
+  const recordedMsRef = useRef(0);
+  const segmentStartRef = useRef<number | null>(null);
   const timerRef = useRef<number>();
+  // Tells other tabs this recording is alive, so they don't offer to recover it
+  const heartbeatRef = useRef<number>();
+
+  const elapsedSeconds = () => {
+    const running = segmentStartRef.current === null ? 0 : performance.now() - segmentStartRef.current;
+    return (recordedMsRef.current + running) / 1000;
+  };
 
   const startRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       
-      mediaRecorderRef.current = new MediaRecorder(stream);
+      const recorder = new MediaRecorder(stream);
+      mediaRecorderRef.current = recorder;
       chunksRef.current = [];
 
-      mediaRecorderRef.current.ondataavailable = (e) => {
+      const session: RecordingSession = {
+        id: uuidv4(),
+        startedAt: Date.now(),
+        mimeType: recorder.mimeType || 'audio/webm', // webm is standard for MediaRecorder
+        duration: 0,
+        heartbeatAt: Date.now(),
+      };
+      saveRecordingSession(session).catch(err => console.error("Failed to start recording backup", err));
+      heartbeatRef.current = window.setInterval(() => {
+        session.heartbeatAt = Date.now();
+        saveRecordingSession({ ...session }).catch(err => console.error("Failed to update recording backup", err));
+      }, RECORDING_HEARTBEAT_MS);
+
+      recorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
           chunksRef.current.push(e.data);
+          session.duration = elapsedSeconds();
+          session.heartbeatAt = Date.now();
+          appendRecordingChunk({ ...session }, chunksRef.current.length - 1, e.data)
+            .catch(err => console.error("Failed to back up recording chunk", err));
         }
       };
 
-      mediaRecorderRef.current.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/webm' }); // webm is standard for MediaRecorder
-        const finalDuration = (Date.now() - startTimeRef.current) / 1000;
-        onRecordingComplete(blob, finalDuration);
+      recorder.onstop = () => {
+        clearInterval(heartbeatRef.current);
+        const blob = new Blob(chunksRef.current, { type: session.mimeType });
+        onRecordingComplete(blob, elapsedSeconds());
+        // Queued after the last chunk's write, so the backup is only dropped once it's complete
+        deleteRecordingSession(session.id).catch(err => console.error("Failed to remove recording backup", err));
         
         // Stop all tracks
         stream.getTracks().forEach(track => track.stop());
@@ -49,15 +83,17 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
         }
       };
 
-      mediaRecorderRef.current.start();
+      recorder.start(TIMESLICE_MS);
       setIsRecording(true);
-      startTimeRef.current = Date.now();
+      setIsPaused(false);
+      recordedMsRef.current = 0;
+      segmentStartRef.current = performance.now();
       
       // Start Timer
       setDuration(0);
       timerRef.current = window.setInterval(() => {
-        setDuration(prev => prev + 1);
-      }, 1000);
+        setDuration(elapsedSeconds());
+      }, 250);
 
       // Setup Visualizer
       setupVisualizer(stream);
@@ -68,10 +104,30 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
     }
   };
 
+  const pauseRecording = () => {
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state !== 'recording') return;
+    mediaRecorderRef.current.pause();
+    if (segmentStartRef.current !== null) recordedMsRef.current += performance.now() - segmentStartRef.current;
+    segmentStartRef.current = null;
+    setDuration(elapsedSeconds());
+    setIsPaused(true);
+  };
+
+  const resumeRecording = () => {
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state !== 'paused') return;
+    mediaRecorderRef.current.resume();
+    segmentStartRef.current = performance.now();
+    setIsPaused(false);
+  };
+
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
+      // Freeze the duration before stop; onstop fires after the final chunk arrives
+      if (segmentStartRef.current !== null) recordedMsRef.current += performance.now() - segmentStartRef.current;
+      segmentStartRef.current = null;
       mediaRecorderRef.current.stop();
       setIsRecording(false);
+      setIsPaused(false);
       if (timerRef.current) clearInterval(timerRef.current);
     }
   };
@@ -125,6 +181,7 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
   useEffect(() => {
     return () => {
       if (timerRef.current) clearInterval(timerRef.current);
+      if (heartbeatRef.current) clearInterval(heartbeatRef.current);
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
       if (audioContextRef.current) audioContextRef.current.close();
     };
@@ -136,19 +193,6 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
     return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
   };
 
-  if (isProcessing) {
-    return (
-       <div className="w-full h-64 flex flex-col items-center justify-center bg-white rounded-2xl border border-slate-100 shadow-xl overflow-hidden relative">
-          <div className="absolute inset-0 bg-slate-50/50 flex items-center justify-center">
-             <div className="flex flex-col items-center gap-4 animate-pulse">
-               <div className="h-12 w-12 rounded-full border-4 border-t-brand-500 border-slate-200 animate-spin"></div>
-               <p className="text-slate-600 font-medium">Processing with Gemini...</p>
-             </div>
-          </div>
-       </div>
-    )
-  }
-
   return (
     <div className="w-full flex flex-col items-center bg-white rounded-2xl border border-slate-100 shadow-xl overflow-hidden transition-all duration-300">
       
@@ -163,12 +207,17 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
         {!isRecording && duration === 0 && (
            <p className="text-slate-400 relative z-10 font-light">Ready to record</p>
         )}
-        {isRecording && (
+        {isRecording && !isPaused && (
           <div className="absolute top-4 right-4 flex items-center gap-2 bg-red-500/10 px-3 py-1 rounded-full border border-red-500/20 backdrop-blur-sm z-20">
              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
              <span className="text-red-500 text-xs font-mono font-bold">REC</span>
           </div>
         )}
+        {isPaused && (
+          <div className="absolute top-4 right-4 flex items-center gap-2 bg-amber-500/10 px-3 py-1 rounded-full border border-amber-500/20 backdrop-blur-sm z-20">
+             <span className="text-amber-500 text-xs font-mono font-bold">PAUSED</span>
+          </div>
+        )}
       </div>
 
       {/* Controls */}
@@ -187,6 +236,14 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
               <span className="absolute -bottom-8 text-xs text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">Record</span>
             </button>
           ) : (
+            <>
+            <button
+              onClick={isPaused ? resumeRecording : pauseRecording}
+              className="group relative flex items-center justify-center w-12 h-12 rounded-full bg-slate-100 hover:bg-slate-200 text-slate-600 transition-all transform hover:scale-105 active:scale-95"
+            >
+              {isPaused ? <PlayIcon className="w-6 h-6" /> : <PauseIcon className="w-6 h-6" />}
+              <span className="absolute -bottom-8 text-xs text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">{isPaused ? 'Resume' : 'Pause'}</span>
+            </button>
             <button
               onClick={stopRecording}
               className="group relative flex items-center justify-center w-16 h-16 rounded-full bg-red-500 hover:bg-red-400 text-white shadow-lg hover:shadow-red-500/30 transition-all transform hover:scale-105 active:scale-95"
@@ -194,6 +251,7 @@ const Recorder: React.FC<RecorderProps> = ({ onRecordingComplete, isProcessing }
               <StopIcon className="w-8 h-8" />
               <span className="absolute -bottom-8 text-xs text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">Stop</span>
             </button>
+            </>
           )}
         </div>
       </div>
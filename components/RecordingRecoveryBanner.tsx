@@ -0,0 +1,46 @@
+import React from 'react';
+import { InterruptedRecording } from '../services/storageService';
+
+interface RecordingRecoveryBannerProps {
+  recordings: InterruptedRecording[];
+  onRecover: (recording: InterruptedRecording) => void;
+  onDiscard: (recording: InterruptedRecording) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+/**
+ * Offers to save recordings that were cut off by a closed tab or a crash.
+ */
+const RecordingRecoveryBanner: React.FC<RecordingRecoveryBannerProps> = ({ recordings, onRecover, onDiscard }) => {
+  if (recordings.length === 0) return null;
+
+  return (
+    <div className="w-full space-y-2">
+      {recordings.map(recording => (
+        <div key={recording.session.id} className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+          <p className="mb-2">
+            <span className="font-bold">Interrupted recording found</span> from {new Date(recording.session.startedAt).toLocaleString()} ({formatDuration(recording.session.duration)}).
+          </p>
+          <div className="flex gap-3">
+            <button onClick={() => onRecover(recording)} className="font-bold text-amber-900 hover:underline">
+              Recover
+            </button>
+            <button
+              onClick={() => { if (window.confirm("Discard this recording? It cannot be recovered afterwards.")) onDiscard(recording); }}
+              className="text-amber-700 hover:text-red-600"
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RecordingRecoveryBanner;
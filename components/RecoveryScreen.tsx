@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { QuarantinedKind, QuarantinedRecord } from '../services/storageService';
+import { DownloadIcon, TrashIcon } from './Icons';
+
+interface RecoveryScreenProps {
+  error?: Error;                       // stored data couldn't be loaded at all
+  quarantined: QuarantinedRecord[];
+  onExport: () => Promise<void>;
+  onDiscard?: () => void;              // delete the quarantined records
+  onContinue?: () => void;             // keep them for later and use the app
+}
+
+const KIND_LABELS: Record<QuarantinedKind, string> = {
+  settings: 'Settings',
+  agent: 'Agent',
+  webTool: 'Web tool',
+  meeting: 'Meeting',
+  chatSession: 'Chat',
+};
+
+// Something recognisable for the record, if it has a name at all
+const describeRecord = (record: unknown) => {
+  if (typeof record !== 'object' || record === null) return typeof record === 'string' ? 'Unreadable text' : String(record);
+  const { title, name, id } = record as Record<string, unknown>;
+  return [title, name, id].find(v => typeof v === 'string' && v) as string | undefined || 'Unnamed record';
+};
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ error, quarantined, onExport, onDiscard, onContinue }) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport();
+    } catch (err) {
+      console.error(err);
+      alert(`Export failed: ${(err as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (window.confirm("Delete the damaged records for good? Export them first if you may want to repair them.")) {
+      onDiscard?.();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl max-h-[85vh] flex flex-col overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-slate-100">
+          <h2 className="font-bold text-slate-800">{error ? "Your data couldn't be loaded" : "Some data was damaged"}</h2>
+          <p className="text-xs text-slate-500 mt-1">
+            {error
+              ? error.message
+              : `${quarantined.length} stored record${quarantined.length === 1 ? '' : 's'} didn't match what the app expects. They were set aside so the rest works; nothing has been deleted.`}
+          </p>
+        </div>
+
+        {quarantined.length > 0 && (
+          <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+            {quarantined.map(q => (
+              <div key={q.id} className="px-4 py-2 text-sm flex items-start gap-3">
+                <span className="shrink-0 px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-amber-100 text-amber-700">{KIND_LABELS[q.kind]}</span>
+                <div className="min-w-0">
+                  <p className="truncate text-slate-700">{describeRecord(q.record)}</p>
+                  <p className="text-xs text-slate-400">{q.reason}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-slate-100 flex flex-wrap justify-end gap-2">
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+          >
+            <DownloadIcon className="w-4 h-4" /> {isExporting ? 'Exporting...' : 'Export raw data'}
+          </button>
+          {onDiscard && (
+            <button onClick={handleDiscard} className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-red-600 rounded-lg hover:bg-red-50">
+              <TrashIcon className="w-4 h-4" /> Delete damaged records
+            </button>
+          )}
+          {onContinue && (
+            <button onClick={onContinue} className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+              Decide later
+            </button>
+          )}
+          {error && (
+            <button onClick={() => window.location.reload()} className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { ReportVersion, ReportVersionSource } from '../types';
+import { DiffRow, diffLines } from '../services/reportHistoryService';
+
+interface ReportHistoryProps {
+  versions: ReportVersion[];
+  currentReport: string;
+  onRestore: (version: ReportVersion) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ReportVersionSource, string> = {
+  generated: '✨ Generated',
+  refine: '🪄 AI refine',
+  manual: '✏️ Manual edit',
+  restore: '↺ Restored',
+};
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: '', right: '' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-slate-50' },
+  added: { left: 'bg-slate-50', right: 'bg-green-50 text-green-800' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-green-50 text-green-800' },
+};
+
+const ReportHistory: React.FC<ReportHistoryProps> = ({ versions, currentReport, onRestore, onClose }) => {
+  const newestFirst = [...versions].reverse();
+  // Start with the version before the current one, the most likely one to compare against
+  const [selectedId, setSelectedId] = useState(newestFirst[Math.min(1, newestFirst.length - 1)]?.id);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const selected = versions.find(v => v.id === selectedId);
+  const isCurrent = selected?.report === currentReport;
+  const rows = useMemo(() => selected ? diffLines(selected.report, currentReport) : [], [selected, currentReport]);
+  const visibleRows = showUnchanged ? rows : rows.filter(r => r.type !== 'same');
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[85vh] overflow-hidden flex flex-col animate-fade-in">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800">Report History</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Versions */}
+          <div className="w-64 border-r border-slate-100 overflow-y-auto p-2 space-y-1 shrink-0">
+            {newestFirst.map((version, i) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left p-3 rounded-lg transition-colors ${selectedId === version.id ? 'bg-brand-50 border border-brand-200' : 'hover:bg-slate-50 border border-transparent'}`}
+              >
+                <div className="flex justify-between items-center text-xs">
+                  <span className="font-medium text-slate-700">{SOURCE_LABELS[version.source]}</span>
+                  {i === 0 && <span className="text-[10px] font-bold text-brand-600 uppercase">Current</span>}
+                </div>
+                <p className="text-[10px] text-slate-400 mt-0.5">{new Date(version.createdAt).toLocaleString()}</p>
+                {version.detail && <p className="text-xs text-slate-500 mt-1 line-clamp-2">{version.detail}</p>}
+              </button>
+            ))}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="px-4 py-2 border-b border-slate-100 flex justify-between items-center text-xs text-slate-500">
+              <span>{selected ? `${new Date(selected.createdAt).toLocaleString()} → current` : 'No version selected'}</span>
+              <div className="flex items-center gap-4">
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="checkbox" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} />
+                  Show unchanged lines
+                </label>
+                <button
+                  onClick={() => selected && onRestore(selected)}
+                  disabled={!selected || isCurrent}
+                  className="px-3 py-1 rounded-md bg-brand-600 text-white font-bold hover:bg-brand-700 disabled:opacity-50"
+                >
+                  Restore this version
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-auto font-mono text-xs">
+              {isCurrent ? (
+                <p className="p-6 text-slate-400 font-sans">This version is the current report.</p>
+              ) : visibleRows.length === 0 ? (
+                <p className="p-6 text-slate-400 font-sans">No differences.</p>
+              ) : (
+                <table className="w-full border-collapse table-fixed">
+                  <tbody>
+                    {visibleRows.map((row, i) => (
+                      <tr key={i} className="align-top border-b border-slate-50">
+                        <td className="w-10 px-2 py-0.5 text-right text-slate-300 select-none">{row.left?.line}</td>
+                        <td className={`px-2 py-0.5 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].left}`}>{row.left?.text}</td>
+                        <td className="w-10 px-2 py-0.5 text-right text-slate-300 select-none border-l border-slate-100">{row.right?.line}</td>
+                        <td className={`px-2 py-0.5 whitespace-pre-wrap break-words ${ROW_STYLES[row.type].right}`}>{row.right?.text}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportHistory;
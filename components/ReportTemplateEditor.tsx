@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { ReportTemplate, TemplateField, TemplateFieldType } from '../types';
+import { TEMPLATE_FIELD_TYPES } from '../services/reportTemplateService';
+import { TrashIcon } from './Icons';
+
+interface ReportTemplateEditorProps {
+  template?: ReportTemplate;
+  onChange: (template: ReportTemplate) => void;
+}
+
+const EMPTY_TEMPLATE: ReportTemplate = { sections: [], fields: [] };
+
+const parseOptions = (text: string) => text.split(',').map(o => o.trim()).filter(Boolean);
+
+/**
+ * Comma separated choice options. The text is kept as typed and only parsed when
+ * the input loses focus, so reformatting doesn't move the cursor mid-word.
+ */
+const OptionsInput: React.FC<{ options: string[]; onChange: (options: string[]) => void }> = ({ options, onChange }) => {
+  const [text, setText] = useState(options.join(', '));
+  const joined = options.join('\n');
+
+  // Follow changes from outside, e.g. a field above this one being removed
+  useEffect(() => {
+    if (parseOptions(text).join('\n') !== joined) setText(options.join(', '));
+  }, [joined]);
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={e => setText(e.target.value)}
+      onBlur={() => onChange(parseOptions(text))}
+      placeholder="Options, comma separated, e.g. Positive, Neutral, Negative"
+      className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs"
+    />
+  );
+};
+
+/**
+ * Edits an agent's report sections and extra fields. Blank entries are kept while
+ * editing and dropped when the agent is saved.
+ */
+const ReportTemplateEditor: React.FC<ReportTemplateEditorProps> = ({ template = EMPTY_TEMPLATE, onChange }) => {
+  const updateField = (index: number, updates: Partial<TemplateField>) => {
+    onChange({ ...template, fields: template.fields.map((f, i) => i === index ? { ...f, ...updates } : f) });
+  };
+
+  const addField = () => {
+    // The key is assigned on save, from the label
+    onChange({ ...template, fields: [...template.fields, { key: '', label: '', type: 'text' }] });
+  };
+
+  const removeField = (index: number) => {
+    onChange({ ...template, fields: template.fields.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-xs font-bold text-slate-500 mb-1">Report Sections (one heading per line)</label>
+        <textarea
+          value={template.sections.join('\n')}
+          onChange={e => onChange({ ...template, sections: e.target.value.split('\n') })}
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg h-24 text-sm"
+          placeholder={"Yesterday\nToday\nBlockers"}
+        />
+      </div>
+
+      <div>
+        <label className="block text-xs font-bold text-slate-500 mb-1">Extra Fields</label>
+        <div className="space-y-2">
+          {template.fields.map((field, i) => (
+            <div key={i} className="p-3 border border-slate-200 rounded-lg space-y-2 bg-slate-50">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={field.label}
+                  onChange={e => updateField(i, { label: e.target.value })}
+                  placeholder="Name, e.g. Risks"
+                  className="flex-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm"
+                />
+                <select
+                  value={field.type}
+                  onChange={e => updateField(i, { type: e.target.value as TemplateFieldType })}
+                  className="px-2 py-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                >
+                  {TEMPLATE_FIELD_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+                <button onClick={() => removeField(i)} className="p-1.5 text-slate-400 hover:text-red-500" title="Remove field">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={field.description || ''}
+                onChange={e => updateField(i, { description: e.target.value })}
+                placeholder="What the model should put here (optional)"
+                className="w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs"
+              />
+              {field.type === 'choice' && (
+                <OptionsInput options={field.options || []} onChange={options => updateField(i, { options })} />
+              )}
+            </div>
+          ))}
+        </div>
+        <button onClick={addField} className="mt-2 text-xs font-bold text-brand-600 hover:text-brand-800">+ Add Field</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportTemplateEditor;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Agent, LANGUAGES, MeetingData, MeetingStatus, ReprocessOptions } from '../types';
+
+interface ReprocessDialogProps {
+  meeting: MeetingData;
+  agents: Agent[];
+  defaultAgentId: string;
+  onConfirm: (options: ReprocessOptions) => void;
+  onClose: () => void;
+}
+
+// meeting.language holds a label or a code depending on where it came from
+const toLanguageCode = (language?: string) =>
+  LANGUAGES.find(l => l.code === language || l.label === language)?.code || 'auto';
+
+const ReprocessDialog: React.FC<ReprocessDialogProps> = ({ meeting, agents, defaultAgentId, onConfirm, onClose }) => {
+  const initialAgent = agents.find(a => a.id === (meeting.progress?.agentId || defaultAgentId)) || agents[0];
+  const [agentId, setAgentId] = useState(initialAgent.id);
+  const [modelId, setModelId] = useState(initialAgent.modelId);
+  const [language, setLanguage] = useState(toLanguageCode(meeting.language));
+  const [keepReport, setKeepReport] = useState(false);
+
+  const hasReport = meeting.status === MeetingStatus.COMPLETED && !!meeting.report;
+  const knownModels = Array.from(new Set(agents.map(a => a.modelId)));
+
+  const handleAgentChange = (id: string) => {
+    setAgentId(id);
+    const agent = agents.find(a => a.id === id);
+    if (agent) setModelId(agent.modelId);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({ agentId, modelId, language, keepReport: hasReport && keepReport });
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-fade-in">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h2 className="font-bold text-slate-800">Reprocess Recording</h2>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Agent</label>
+            <select
+              value={agentId}
+              onChange={e => handleAgentChange(e.target.value)}
+              className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              {agents.map(a => <option key={a.id} value={a.id}>{a.icon} {a.name}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Model</label>
+            <input
+              type="text"
+              list="reprocess-models"
+              value={modelId}
+              onChange={e => setModelId(e.target.value)}
+              className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-brand-500 outline-none"
+            />
+            <datalist id="reprocess-models">
+              {knownModels.map(m => <option key={m} value={m} />)}
+            </datalist>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Language</label>
+            <select
+              value={language}
+              onChange={e => setLanguage(e.target.value)}
+              className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+          </div>
+
+          {hasReport && (
+            <div className="space-y-2 pt-2 border-t border-slate-100">
+              <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+                <input type="radio" className="mt-1" checked={!keepReport} onChange={() => setKeepReport(false)} />
+                <span><span className="font-medium text-slate-800">Replace the report</span> — title, report and action items are rewritten.</span>
+              </label>
+              <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+                <input type="radio" className="mt-1" checked={keepReport} onChange={() => setKeepReport(true)} />
+                <span><span className="font-medium text-slate-800">Keep the report</span> — only the transcript is redone.</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+            Reprocess
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ReprocessDialog;
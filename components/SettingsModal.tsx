@@ -1,7 +1,19 @@
 
 import React, { useState, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Agent, UserSettings, ModelProvider, WebTool, MeetingData, ChatMessage } from '../types';
+import { Agent, UserSettings, ModelProvider, WebTool, MeetingData, ChatSession, EmbeddingProviderId, SyncSettings } from '../types';
+import { clearAllData, saveAudio } from '../services/storageService';
+import { ArchiveProgress, createArchive, isArchiveFile, readArchive } from '../services/archiveService';
+import { downloadBlob } from '../services/exportService';
+import { ZipFormatError } from '../services/zip';
+import { Backup, BackupFormatError, ImportPreview, ImportSelection, applyImport, createBackup, parseBackup, previewImport } from '../services/backupService';
+import { cleanTemplate } from '../services/reportTemplateService';
+import { SyncChoice, SyncStatus } from '../services/syncService';
+import { DEFAULT_AUTO_LOCK_MINUTES, EMPTY_API_KEYS, MIN_PASSPHRASE_LENGTH, createPassphraseKey, encryptApiKeys, hasApiKeys } from '../services/keyEncryptionService';
+import BackupImportDialog from './BackupImportDialog';
+import CloudSyncSettings from './CloudSyncSettings';
+import KeyProtectionSettings from './KeyProtectionSettings';
+import ReportTemplateEditor from './ReportTemplateEditor';
 import { KeyIcon, RobotIcon, CloudIcon, GlobeIcon, DownloadIcon, UploadIcon } from './Icons';
 
 interface SettingsModalProps {
@@ -11,23 +23,59 @@ interface SettingsModalProps {
   // New props for backup/restore
   meetings: MeetingData[];
   onImportMeetings: (meetings: MeetingData[]) => void;
-  chatHistories: Record<string, ChatMessage[]>;
-  onImportChats: (chats: Record<string, ChatMessage[]>) => void;
+  chatSessions: ChatSession[];
+  onImportSessions: (sessions: ChatSession[]) => void;
+  onImportSettings: (settings: UserSettings) => void;
+  // Passphrase protection of the API keys
+  isKeysLocked: boolean;
+  onProtectKeys: (passphrase: string) => Promise<void>;
+  onUnprotectKeys: () => void;
+  onLockKeys: () => void;
+  onUnlockKeys: () => void;
+  initialTab?: 'keys' | 'agents' | 'webtools' | 'data';
+  // Sync with Google Drive, WebDAV or a local folder
+  syncStatus: SyncStatus;
+  syncFolderName: string | null;
+  onConnectSync: () => Promise<void>;
+  onSyncNow: () => void;
+  onResolveSyncConflict: (key: string, choice: SyncChoice) => void;
 }
 
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const SettingsModal: React.FC<SettingsModalProps> = ({ 
   settings, 
   onUpdateSettings, 
   onClose,
   meetings,
   onImportMeetings,
-  chatHistories,
-  onImportChats
+  chatSessions,
+  onImportSessions,
+  onImportSettings,
+  isKeysLocked,
+  onProtectKeys,
+  onUnprotectKeys,
+  onLockKeys,
+  onUnlockKeys,
+  initialTab = 'keys',
+  syncStatus,
+  syncFolderName,
+  onConnectSync,
+  onSyncNow,
+  onResolveSyncConflict
 }) => {
-  const [activeTab, setActiveTab] = useState<'keys' | 'agents' | 'webtools' | 'data'>('keys');
+  const [activeTab, setActiveTab] = useState<'keys' | 'agents' | 'webtools' | 'data'>(initialTab);
   const [editingAgent, setEditingAgent] = useState<Partial<Agent> | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
+  // Backups leave the keys out unless asked, and then only encrypted
+  const [includeKeysInBackup, setIncludeKeysInBackup] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  // A backup that was read and is waiting for the user to pick what to import
+  const [pendingImport, setPendingImport] = useState<{ backup: Backup; preview: ImportPreview } | null>(null);
+  // Set while an archive (backup with audio) is being written or read
+  const [archiveProgress, setArchiveProgress] = useState<ArchiveProgress | null>(null);
+
   // Web Tool State
   const [newWebTool, setNewWebTool] = useState<Partial<WebTool>>({ icon: '🌐' });
 
@@ -38,6 +86,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     });
   };
 
+  // Turning sync off also forgets the Drive connection
+  const handleSyncChange = (sync: SyncSettings | undefined) => {
+    onUpdateSettings({ ...settings, sync, googleDriveConnected: !!sync && settings.googleDriveConnected });
+  };
+
+  const handleBaseUrlChange = (provider: ModelProvider, value: string) => {
+    onUpdateSettings({
+      ...settings,
+      baseUrls: { ...settings.baseUrls, [provider]: value }
+    });
+  };
+
   const handleSaveAgent = () => {
     if (!editingAgent || !editingAgent.name || !editingAgent.systemInstruction) return;
 
@@ -54,7 +114,7 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
     if (editingAgent.id) {
       // Update existing
       const updatedAgents = settings.agents.map(a => 
-        a.id === editingAgent.id ? { ...a, ...editingAgent } as Agent : a
+        a.id === editingAgent.id ? { ...a, ...editingAgent, reportTemplate: cleanTemplate(editingAgent.reportTemplate) } as Agent : a
       );
       onUpdateSettings({ ...settings, agents: updatedAgents });
     } else {
@@ -67,7 +127,8 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
         systemInstruction: editingAgent.systemInstruction,
         provider: provider,
         modelId: editingAgent.modelId || 'gemini-2.5-flash',
-        isDefault: false
+        isDefault: false,
+        reportTemplate: cleanTemplate(editingAgent.reportTemplate)
       };
       onUpdateSettings({ ...settings, agents: [...settings.agents, newAgent] });
     }
@@ -101,24 +162,45 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   };
 
   // --- Data Management Functions ---
-  const handleExportData = () => {
-    const dataToExport = {
-      version: 1,
-      date: new Date().toISOString(),
-      settings: settings,
-      meetings: meetings.map(({ audioBlob, audioUrl, ...rest }) => rest), // Exclude blobs/urls
-      chatHistories: chatHistories
-    };
+  // Settings as they go into a backup; null if the keys couldn't be encrypted
+  const getBackupSettings = async (): Promise<UserSettings | null> => {
+    const { apiKeys, encryptedApiKeys, ...rest } = settings;
+    const exportedSettings: UserSettings = { ...rest, apiKeys: EMPTY_API_KEYS };
+    if (includeKeysInBackup) {
+      try {
+        exportedSettings.encryptedApiKeys = await encryptApiKeys(apiKeys, await createPassphraseKey(backupPassphrase));
+      } catch (err) {
+        console.error(err);
+        alert(`Could not encrypt the keys for the backup: ${(err as Error).message}`);
+        return null;
+      }
+    }
+    return exportedSettings;
+  };
+
+  const handleExportData = async () => {
+    const exportedSettings = await getBackupSettings();
+    if (!exportedSettings) return;
 
+    const dataToExport = createBackup(exportedSettings, meetings, chatSessions);
     const blob = new Blob([JSON.stringify(dataToExport, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `nexus-backup-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `nexus-backup-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleExportArchive = async () => {
+    const exportedSettings = await getBackupSettings();
+    if (!exportedSettings) return;
+
+    setArchiveProgress({ label: 'Packing recordings', done: 0, total: 0 });
+    try {
+      const archive = await createArchive(createBackup(exportedSettings, meetings, chatSessions), meetings, setArchiveProgress);
+      downloadBlob(archive, `nexus-archive-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to create the archive: ${(err as Error).message}`);
+    } finally {
+      setArchiveProgress(null);
+    }
   };
 
   const handleImportClick = () => {
@@ -128,33 +210,83 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    if (isArchiveFile(file)) {
+      handleImportArchive(file);
+      e.target.value = '';
+      return;
+    }
 
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json.version && json.settings) {
-          if (window.confirm("This will overwrite your current settings, agents, and meetings. Are you sure?")) {
-            onUpdateSettings(json.settings);
-            if (json.meetings) onImportMeetings(json.meetings);
-            if (json.chatHistories) onImportChats(json.chatHistories);
-            alert("Data imported successfully!");
-            onClose();
-          }
-        } else {
-          alert("Invalid backup file format.");
-        }
+        const backup = parseBackup(event.target?.result as string);
+        setPendingImport({ backup, preview: previewImport(backup, { settings, meetings, chatSessions }) });
       } catch (err) {
         console.error(err);
-        alert("Failed to parse backup file.");
+        alert(err instanceof BackupFormatError ? `Invalid backup file: ${err.message}` : "Failed to read backup file.");
       }
     };
     reader.readAsText(file);
+    // Allow picking the same file again after cancelling
+    e.target.value = '';
+  };
+
+  const handleImportArchive = async (file: File) => {
+    setArchiveProgress({ label: 'Reading archive', done: 0, total: 0 });
+    try {
+      const backup = await readArchive(file, setArchiveProgress);
+      setPendingImport({ backup, preview: previewImport(backup, { settings, meetings, chatSessions }) });
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof BackupFormatError || err instanceof ZipFormatError ? `Invalid archive: ${err.message}` : "Failed to read archive.");
+    } finally {
+      setArchiveProgress(null);
+    }
   };
 
-  const handleClearAllData = () => {
+  const handleImport = async (selection: ImportSelection) => {
+    if (!pendingImport) return;
+    const result = applyImport(pendingImport.backup, { settings, meetings, chatSessions }, pendingImport.preview, selection);
+    // Plain keys from an old backup are protected with the passphrase, which needs the keys unlocked
+    if (isKeysLocked && !result.settings.encryptedApiKeys && hasApiKeys(result.settings.apiKeys)) {
+      alert("This backup contains API keys. Unlock your keys first, then import again.");
+      onUnlockKeys();
+      return;
+    }
+    setPendingImport(null);
+
+    // Recordings from an archive are still slices of the file; store them before it goes away
+    const archiveAudio = new Set(pendingImport.backup.meetings.map(m => m.audioBlob));
+    const restored = result.meetings.filter(m => m.audioBlob && archiveAudio.has(m.audioBlob));
+    const total = restored.reduce((sum, m) => sum + m.audioBlob!.size, 0);
+    const audioUrls = new Map<string, string>();
+    let done = 0;
+    try {
+      for (const meeting of restored) {
+        setArchiveProgress({ label: 'Restoring recordings', done, total });
+        await saveAudio(meeting.id, meeting.audioBlob!);
+        audioUrls.set(meeting.id, URL.createObjectURL(meeting.audioBlob!));
+        done += meeting.audioBlob!.size;
+      }
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to store the recordings: ${(err as Error).message}`);
+      setArchiveProgress(null);
+      return;
+    }
+    setArchiveProgress(null);
+
+    onImportSettings(result.settings);
+    onImportMeetings(result.meetings.map(m => audioUrls.has(m.id) ? { ...m, audioUrl: audioUrls.get(m.id) } : m));
+    onImportSessions(result.chatSessions);
+    alert("Data imported successfully!");
+    onClose();
+  };
+
+  const handleClearAllData = async () => {
     if (window.confirm("DANGER: This will permanently delete ALL meetings, chats, and custom agents. This cannot be undone.")) {
        localStorage.clear();
+       await clearAllData();
        window.location.reload();
     }
   };
@@ -204,6 +336,17 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                 <div className="space-y-6 max-w-lg">
                   <h3 className="text-xl font-bold text-slate-800">Model Provider Keys</h3>
                   <p className="text-sm text-slate-500">Enter your personal API keys to use different models. Keys are stored locally in your browser.</p>
+
+                  <KeyProtectionSettings
+                    isProtected={!!settings.encryptedApiKeys}
+                    isLocked={isKeysLocked}
+                    autoLockMinutes={settings.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES}
+                    onProtect={onProtectKeys}
+                    onUnprotect={onUnprotectKeys}
+                    onLock={onLockKeys}
+                    onUnlock={onUnlockKeys}
+                    onChangeAutoLock={autoLockMinutes => onUpdateSettings({ ...settings, autoLockMinutes })}
+                  />
                   
                   <div className="space-y-4">
                     <div>
@@ -212,8 +355,9 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         type="password" 
                         value={settings.apiKeys.google} 
                         onChange={e => handleKeyChange('google', e.target.value)}
-                        placeholder="sk-..."
-                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                        disabled={isKeysLocked}
+                        placeholder={isKeysLocked ? "Locked" : "sk-..."}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-100"
                       />
                     </div>
                     <div>
@@ -222,9 +366,18 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         type="password" 
                         value={settings.apiKeys.openai} 
                         onChange={e => handleKeyChange('openai', e.target.value)}
-                        placeholder="sk-..."
-                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                        disabled={isKeysLocked}
+                        placeholder={isKeysLocked ? "Locked" : "sk-..."}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-100"
+                      />
+                      <input 
+                        type="text" 
+                        value={settings.baseUrls?.openai || ''} 
+                        onChange={e => handleBaseUrlChange('openai', e.target.value)}
+                        placeholder="Base URL (optional, e.g. http://localhost:11434/v1)"
+                        className="w-full mt-2 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
                       />
+                      <p className="text-[10px] text-slate-400 mt-1">Leave empty for api.openai.com. Any OpenAI-compatible server works.</p>
                     </div>
                     <div>
                       <label className="block text-sm font-medium text-slate-700 mb-1">Anthropic</label>
@@ -232,9 +385,31 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                         type="password" 
                         value={settings.apiKeys.anthropic} 
                         onChange={e => handleKeyChange('anthropic', e.target.value)}
-                        placeholder="sk-ant-..."
-                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                        disabled={isKeysLocked}
+                        placeholder={isKeysLocked ? "Locked" : "sk-ant-..."}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-slate-100"
                       />
+                      <input 
+                        type="text" 
+                        value={settings.baseUrls?.anthropic || ''} 
+                        onChange={e => handleBaseUrlChange('anthropic', e.target.value)}
+                        placeholder="Endpoint (optional, e.g. http://localhost:8080)"
+                        className="w-full mt-2 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                      />
+                      <p className="text-[10px] text-slate-400 mt-1">Leave empty for api.anthropic.com. Audio is transcribed with Gemini or OpenAI first.</p>
+                    </div>
+                    <div className="pt-4 border-t border-slate-100">
+                      <label className="block text-sm font-medium text-slate-700 mb-1">Meeting search (embeddings)</label>
+                      <select
+                        value={settings.embeddingProvider || 'local'}
+                        onChange={e => onUpdateSettings({ ...settings, embeddingProvider: e.target.value as EmbeddingProviderId })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none bg-white"
+                      >
+                        <option value="local">Local (offline, keyword-based)</option>
+                        <option value="google">Google Gemini</option>
+                        <option value="openai">OpenAI</option>
+                      </select>
+                      <p className="text-[10px] text-slate-400 mt-1">Used when chatting about your meetings. Changing it re-indexes all meetings; with Gemini or OpenAI, meeting text is sent to that provider.</p>
                     </div>
                   </div>
                 </div>
@@ -340,6 +515,15 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           />
                         </div>
 
+                        <div className="pt-4 border-t border-slate-100">
+                          <h4 className="text-sm font-bold text-slate-700 mb-1">Report Template</h4>
+                          <p className="text-xs text-slate-400 mb-3">Optional. Sections structure the report; fields are filled in for every meeting and shown as cards.</p>
+                          <ReportTemplateEditor
+                            template={editingAgent.reportTemplate}
+                            onChange={reportTemplate => setEditingAgent({ ...editingAgent, reportTemplate })}
+                          />
+                        </div>
+
                         <div className="flex justify-end gap-3 pt-4 border-t border-slate-100">
                           {editingAgent.id && !editingAgent.isDefault && (
                              <button onClick={() => deleteAgent(editingAgent.id!)} className="px-4 py-2 text-red-500 hover:bg-red-50 rounded-lg text-sm font-medium">Delete</button>
@@ -417,19 +601,52 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                   <div className="space-y-4">
                     <div className="p-6 bg-slate-50 rounded-xl border border-slate-200">
                       <h4 className="font-bold text-slate-800 mb-2">Backup & Restore</h4>
-                      <p className="text-sm text-slate-500 mb-4">Export all your settings, agents, and meeting notes to a JSON file. Use this to transfer data between devices or keep a safe backup.</p>
+                      <p className="text-sm text-slate-500 mb-4">Export all your settings, agents, and meeting notes to a JSON file, or everything including the recordings to a ZIP archive. Use this to transfer data between devices or keep a safe backup.</p>
+
+                      <div className="mb-4 space-y-2">
+                        <label className={`flex items-center gap-2 text-sm ${isKeysLocked || !hasApiKeys(settings.apiKeys) ? 'text-slate-400' : 'text-slate-700'}`}>
+                          <input
+                            type="checkbox"
+                            checked={includeKeysInBackup}
+                            disabled={isKeysLocked || !hasApiKeys(settings.apiKeys)}
+                            onChange={e => setIncludeKeysInBackup(e.target.checked)}
+                          />
+                          Include API keys, encrypted with a passphrase
+                          {isKeysLocked && <span className="text-xs">(unlock your keys first)</span>}
+                        </label>
+                        {includeKeysInBackup && (
+                          <input
+                            type="password"
+                            value={backupPassphrase}
+                            onChange={e => setBackupPassphrase(e.target.value)}
+                            placeholder={`Backup passphrase, at least ${MIN_PASSPHRASE_LENGTH} characters`}
+                            className="w-full max-w-sm px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+                          />
+                        )}
+                      </div>
                       
                       <div className="flex gap-4">
                         <button 
                           onClick={handleExportData}
-                          className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 transition-colors"
+                          disabled={includeKeysInBackup && backupPassphrase.length < MIN_PASSPHRASE_LENGTH}
+                          className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 disabled:opacity-50 transition-colors"
                         >
                           <DownloadIcon className="w-4 h-4" /> Export Backup
                         </button>
+
+                        <button 
+                          onClick={handleExportArchive}
+                          disabled={!!archiveProgress || (includeKeysInBackup && backupPassphrase.length < MIN_PASSPHRASE_LENGTH)}
+                          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                          title="One ZIP file with everything, including the recordings"
+                        >
+                          <DownloadIcon className="w-4 h-4" /> Export Archive (with audio)
+                        </button>
                         
                         <button 
                           onClick={handleImportClick}
-                          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 transition-colors"
+                          disabled={!!archiveProgress}
+                          className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 disabled:opacity-50 transition-colors"
                         >
                           <UploadIcon className="w-4 h-4" /> Import Backup
                         </button>
@@ -437,12 +654,41 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
                           type="file" 
                           ref={fileInputRef}
                           onChange={handleFileChange}
-                          accept=".json"
+                          accept=".json,.zip"
                           className="hidden" 
                         />
                       </div>
+
+                      {archiveProgress && (
+                        <div className="mt-4">
+                          <div className="flex justify-between text-xs text-slate-500 mb-1">
+                            <span>{archiveProgress.label}...</span>
+                            {archiveProgress.total > 0 && (
+                              <span>{formatMegabytes(archiveProgress.done)} / {formatMegabytes(archiveProgress.total)}</span>
+                            )}
+                          </div>
+                          <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-brand-500 transition-all"
+                              style={{ width: `${archiveProgress.total > 0 ? (archiveProgress.done / archiveProgress.total) * 100 : 0}%` }}
+                            />
+                          </div>
+                        </div>
+                      )}
                     </div>
 
+                    <CloudSyncSettings
+                      settings={settings}
+                      isKeysLocked={isKeysLocked}
+                      status={syncStatus}
+                      folderName={syncFolderName}
+                      onChange={handleSyncChange}
+                      onChangeWebdavPassword={password => handleKeyChange('webdavPassword', password)}
+                      onConnect={onConnectSync}
+                      onSyncNow={onSyncNow}
+                      onResolveConflict={onResolveSyncConflict}
+                    />
+
                     <div className="p-6 bg-red-50 rounded-xl border border-red-100 mt-8">
                        <h4 className="font-bold text-red-700 mb-2">Danger Zone</h4>
                        <p className="text-sm text-red-600/70 mb-4">Resetting the application will delete all locally stored data, including meetings, chats, and custom agents.</p>
@@ -460,6 +706,16 @@ const SettingsModal: React.FC<SettingsModalProps> = ({
           </div>
         </div>
       </div>
+
+      {pendingImport && (
+        <BackupImportDialog
+          backup={pendingImport.backup}
+          preview={pendingImport.preview}
+          hasKeys={!!settings.encryptedApiKeys || hasApiKeys(settings.apiKeys)}
+          onImport={handleImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
     </div>
   );
 };
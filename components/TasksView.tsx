@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ActionItem, MeetingData } from '../types';
+import { DueFilter, collectActionItems, getOwners, isOverdue } from '../services/actionItemService';
+import { CheckCircleIcon } from './Icons';
+
+interface TasksViewProps {
+  meetings: MeetingData[];
+  onUpdateActionItem: (meetingId: string, itemId: string, updates: Partial<ActionItem>) => void;
+  onOpenMeeting: (meetingId: string) => void;
+}
+
+const TasksView: React.FC<TasksViewProps> = ({ meetings, onUpdateActionItem, onOpenMeeting }) => {
+  // null = all owners, '' = unassigned
+  const [owner, setOwner] = useState<string | null>(null);
+  const [due, setDue] = useState<DueFilter>('all');
+  const [showDone, setShowDone] = useState(false);
+
+  const items = collectActionItems(meetings, { owner, due, showDone });
+  const owners = getOwners(meetings).filter(Boolean);
+  const meetingTitle = (id: string) => meetings.find(m => m.id === id)?.title || 'Unknown meeting';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 bg-white border-b border-slate-200 flex flex-wrap items-center gap-4">
+        <div className="mr-auto">
+          <h2 className="font-bold text-slate-800 text-lg">Tasks</h2>
+          <p className="text-xs text-slate-500">Action items from all your meetings</p>
+        </div>
+
+        <select 
+          value={owner ?? '__all__'}
+          onChange={e => setOwner(e.target.value === '__all__' ? null : e.target.value)}
+          className="text-sm px-3 py-1.5 border border-slate-200 rounded-lg bg-white"
+        >
+          <option value="__all__">All owners</option>
+          <option value="">Unassigned</option>
+          {owners.map(o => <option key={o} value={o}>{o}</option>)}
+        </select>
+
+        <select 
+          value={due}
+          onChange={e => setDue(e.target.value as DueFilter)}
+          className="text-sm px-3 py-1.5 border border-slate-200 rounded-lg bg-white"
+        >
+          <option value="all">Any due date</option>
+          <option value="overdue">Overdue</option>
+          <option value="week">Due within a week</option>
+          <option value="none">No due date</option>
+        </select>
+
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+          <input type="checkbox" checked={showDone} onChange={e => setShowDone(e.target.checked)} />
+          Show done
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-4xl mx-auto bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+          {items.length === 0 && (
+            <div className="flex flex-col items-center gap-3 p-12 text-slate-400">
+              <CheckCircleIcon className="w-12 h-12 opacity-30" />
+              <p className="text-sm">Nothing to do here.</p>
+            </div>
+          )}
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 px-4 py-3">
+              <input 
+                type="checkbox"
+                checked={item.status === 'done'}
+                onChange={e => onUpdateActionItem(item.meetingId, item.id, { status: e.target.checked ? 'done' : 'open' })}
+                className="w-4 h-4 accent-brand-600 shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${item.status === 'done' ? 'line-through text-slate-400' : 'text-slate-700'}`}>{item.text || 'Untitled task'}</p>
+                <button 
+                  onClick={() => onOpenMeeting(item.meetingId)}
+                  className="text-[10px] text-slate-400 hover:text-brand-600 truncate max-w-full"
+                >
+                  {meetingTitle(item.meetingId)}
+                </button>
+              </div>
+              {item.owner && (
+                <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600 shrink-0">{item.owner}</span>
+              )}
+              <span className={`text-xs font-mono w-24 text-right shrink-0 ${isOverdue(item) ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+                {item.dueDate || '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TasksView;
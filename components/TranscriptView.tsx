@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp, groupSegmentsBySpeaker, splitIntoSentences } from '../services/transcriptService';
+import { MarkdownInlineText } from './MarkdownView';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  followPlayback: boolean;
+  speakerColor: (speaker: string) => string;
+  onSeek: (seconds: number) => void;
+  onRenameSpeaker: (speaker: string) => void;
+  highlightTerms?: string[];
+}
+
+/**
+ * Karaoke-style transcript: click a sentence to seek, the playing one is highlighted.
+ */
+const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, followPlayback, speakerColor, onSeek, onRenameSpeaker, highlightTerms = [] }) => {
+  const sentenceRefs = useRef<(HTMLSpanElement | null)[]>([]);
+
+  const turns = useMemo(() =>
+    groupSegmentsBySpeaker(segments).map(turn => ({ ...turn, sentences: turn.segments.flatMap(splitIntoSentences) })),
+    [segments]
+  );
+  const sentences = useMemo(() => turns.flatMap(turn => turn.sentences), [turns]);
+
+  // Sentences are ordered, so the last one that started is the one being spoken
+  let activeIndex = -1;
+  sentences.forEach((s, i) => {
+    if (s.start <= currentTime) activeIndex = i;
+  });
+  if (activeIndex !== -1 && currentTime > sentences[activeIndex].end + 1) activeIndex = -1;
+
+  useEffect(() => {
+    if (followPlayback && activeIndex !== -1) {
+      sentenceRefs.current[activeIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeIndex, followPlayback]);
+
+  let index = 0;
+
+  return (
+    <div className="space-y-5">
+      {turns.map((turn, i) => (
+        <div key={i}>
+          <div className="flex items-center gap-2 mb-1">
+            <button
+              onClick={() => onRenameSpeaker(turn.speaker)}
+              className={`px-2 py-0.5 rounded-full text-xs font-bold border hover:opacity-80 transition-opacity ${speakerColor(turn.speaker)}`}
+              title="Rename speaker"
+            >
+              {turn.speaker}
+            </button>
+            <button
+              onClick={() => onSeek(turn.start)}
+              className="text-[10px] font-mono text-slate-400 hover:text-brand-600"
+              title="Play from here"
+            >
+              {formatTimestamp(turn.start)} – {formatTimestamp(turn.end)}
+            </button>
+          </div>
+          <p className="text-sm text-slate-600 leading-relaxed">
+            {turn.sentences.map(sentence => {
+              const sentenceIndex = index++;
+              return (
+                <span
+                  key={sentenceIndex}
+                  ref={el => { sentenceRefs.current[sentenceIndex] = el; }}
+                  onClick={() => onSeek(sentence.start)}
+                  className={`cursor-pointer rounded px-0.5 transition-colors ${sentenceIndex === activeIndex ? 'bg-brand-100 text-brand-900' : 'hover:bg-slate-100'}`}
+                  title={formatTimestamp(sentence.start)}
+                >
+                  <MarkdownInlineText text={sentence.text} highlightTerms={highlightTerms} />{' '}
+                </span>
+              );
+            })}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptView;
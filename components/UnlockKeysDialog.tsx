@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { KeyIcon } from './Icons';
+
+interface UnlockKeysDialogProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  onSkip: () => void;
+  onForget: () => void;
+}
+
+const UnlockKeysDialog: React.FC<UnlockKeysDialogProps> = ({ onUnlock, onSkip, onForget }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError((err as Error).message);
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (window.confirm("Delete the stored API keys? You will have to enter them again in Settings.")) {
+      onForget();
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-6 animate-fade-in">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-full bg-brand-50 text-brand-600 flex items-center justify-center">
+            <KeyIcon className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="font-bold text-slate-800">Unlock API Keys</h2>
+            <p className="text-xs text-slate-500">Your keys are encrypted with a passphrase.</p>
+          </div>
+        </div>
+
+        <input
+          autoFocus
+          type="password"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 outline-none"
+        />
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full mt-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-bold hover:bg-brand-700 disabled:opacity-50 transition-colors"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <div className="flex justify-between mt-3 text-xs">
+          <button type="button" onClick={onSkip} className="text-slate-500 hover:text-slate-700">Not now</button>
+          <button type="button" onClick={handleForget} className="text-slate-400 hover:text-red-600">Forgot passphrase?</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockKeysDialog;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { MeetingStatus } from '../types';
+import { EMPTY_FILTERS, SearchFilters } from '../services/searchService';
+
+interface VaultSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  filters: SearchFilters;
+  onFiltersChange: (filters: SearchFilters) => void;
+  tagFacets: { tag: string; count: number }[];
+  languages: string[];
+  resultCount: number;
+}
+
+const VaultSearchBar: React.FC<VaultSearchBarProps> = ({ query, onQueryChange, filters, onFiltersChange, tagFacets, languages, resultCount }) => {
+  const [showFilters, setShowFilters] = useState(false);
+
+  const activeFilterCount =
+    filters.tags.length + (filters.from ? 1 : 0) + (filters.to ? 1 : 0) + (filters.language ? 1 : 0) + (filters.status ? 1 : 0);
+
+  const toggleTag = (tag: string) => {
+    onFiltersChange({
+      ...filters,
+      tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag]
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex gap-2">
+        <input 
+          type="search"
+          value={query}
+          onChange={e => onQueryChange(e.target.value)}
+          placeholder="Search meetings..."
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm bg-slate-100 rounded-lg outline-none focus:ring-2 focus:ring-brand-500/30"
+        />
+        <button 
+          onClick={() => setShowFilters(!showFilters)}
+          className={`px-2 py-1.5 text-xs font-medium rounded-lg border transition-colors ${showFilters || activeFilterCount ? 'border-brand-200 bg-brand-50 text-brand-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+        >
+          Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="p-3 bg-slate-50 rounded-lg border border-slate-100 space-y-3 text-xs">
+          {tagFacets.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tagFacets.map(({ tag, count }) => (
+                <button 
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2 py-0.5 rounded-full border transition-colors ${filters.tags.includes(tag) ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-500 border-slate-200 hover:border-brand-300'}`}
+                >
+                  #{tag} <span className="opacity-60">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <input 
+              type="date"
+              value={filters.from}
+              onChange={e => onFiltersChange({ ...filters, from: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded bg-white"
+            />
+            <span className="text-slate-400">–</span>
+            <input 
+              type="date"
+              value={filters.to}
+              onChange={e => onFiltersChange({ ...filters, to: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded bg-white"
+            />
+          </div>
+          <div className="flex gap-2">
+            <select 
+              value={filters.language}
+              onChange={e => onFiltersChange({ ...filters, language: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded bg-white"
+            >
+              <option value="">Any language</option>
+              {languages.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+            <select 
+              value={filters.status}
+              onChange={e => onFiltersChange({ ...filters, status: e.target.value as SearchFilters['status'] })}
+              className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded bg-white"
+            >
+              <option value="">Any status</option>
+              {Object.values(MeetingStatus).map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+          <div className="flex justify-between items-center text-slate-400">
+            <span>{resultCount} result{resultCount === 1 ? '' : 's'}</span>
+            {activeFilterCount > 0 && (
+              <button onClick={() => onFiltersChange(EMPTY_FILTERS)} className="text-brand-600 hover:text-brand-800 font-medium">Clear filters</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultSearchBar;
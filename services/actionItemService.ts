@@ -0,0 +1,53 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ActionItem, ExtractedActionItem, MeetingData } from "../types";
+
+export type DueFilter = 'all' | 'overdue' | 'week' | 'none';
+
+export const createActionItems = (extracted: ExtractedActionItem[], meetingId: string): ActionItem[] =>
+  extracted.map(item => ({
+    id: uuidv4(),
+    text: item.text,
+    owner: item.owner || '',
+    dueDate: /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate || '') ? item.dueDate : '',
+    meetingId,
+    status: 'open',
+  }));
+
+/**
+ * YYYY-MM-DD in the user's time zone (toISOString would give the UTC date).
+ */
+export const formatLocalDate = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const today = () => formatLocalDate();
+
+export const isOverdue = (item: ActionItem) =>
+  item.status === 'open' && !!item.dueDate && item.dueDate < today();
+
+const matchesDue = (item: ActionItem, due: DueFilter) => {
+  if (due === 'all') return true;
+  if (due === 'none') return !item.dueDate;
+  if (due === 'overdue') return isOverdue(item);
+  // Due from today on; overdue items have their own filter
+  const inAWeek = new Date();
+  inAWeek.setDate(inAWeek.getDate() + 7);
+  return !!item.dueDate && item.dueDate >= today() && item.dueDate <= formatLocalDate(inAWeek);
+};
+
+/**
+ * All action items across the vault, soonest deadline first (items without a date last).
+ */
+export const collectActionItems = (
+  meetings: MeetingData[],
+  filters: { owner: string | null; due: DueFilter; showDone: boolean }
+): ActionItem[] => {
+  return meetings
+    .flatMap(m => m.actionItems || [])
+    .filter(item => filters.showDone || item.status === 'open')
+    .filter(item => filters.owner === null || item.owner === filters.owner)
+    .filter(item => matchesDue(item, filters.due))
+    .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999'));
+};
+
+export const getOwners = (meetings: MeetingData[]) =>
+  Array.from(new Set(meetings.flatMap(m => (m.actionItems || []).map(a => a.owner)))).sort();
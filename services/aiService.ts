@@ -0,0 +1,251 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Agent, AnswerCitation, ChatMessage, MeetingData, MeetingQuestion, ModelProvider, ProcessingResult, TranscriptSegment, UserSettings, VaultSource } from "../types";
+import { LLMProvider, MEETING_ANSWER_SCHEMA, buildMeetingPrompt, buildMeetingResultSchema, buildMeetingQuestionPrompt, buildVaultQuestionPrompt, getProviderConfig } from "./llmProvider";
+import { createGeminiProvider, processMeetingAudio as processAudioWithGemini } from "./geminiService";
+import { createOpenAIProvider } from "./openaiService";
+import { createAnthropicProvider } from "./anthropicService";
+import { Embedder, createLocalEmbedder } from "./embeddingService";
+import { formatTimestamp, getTranscriptPassages, segmentsToText } from "./transcriptService";
+
+const PROVIDER_FACTORIES: Record<ModelProvider, typeof createGeminiProvider> = {
+  google: createGeminiProvider,
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+};
+
+// Providers able to turn audio into text, in order of preference
+const SPEECH_PROVIDERS: ModelProvider[] = ['google', 'openai'];
+
+/**
+ * Resolves the provider implementation for an agent, configured from user settings.
+ */
+export const getProvider = (provider: ModelProvider, settings: UserSettings): LLMProvider => {
+  return PROVIDER_FACTORIES[provider](getProviderConfig(settings, provider));
+};
+
+/**
+ * Chat with an Agent
+ */
+export const chatWithAgent = async (
+  agent: Agent,
+  history: ChatMessage[],
+  newMessage: string,
+  settings: UserSettings
+): Promise<string> => {
+  return getProvider(agent.provider, settings).chat({
+    model: agent.modelId,
+    systemInstruction: agent.systemInstruction,
+    history,
+    message: newMessage,
+  });
+};
+
+/**
+ * Streams an Agent's reply chunk by chunk. Abort `signal` to stop generation.
+ */
+export const streamChatWithAgent = (
+  agent: Agent,
+  history: ChatMessage[],
+  newMessage: string,
+  settings: UserSettings,
+  signal?: AbortSignal
+): AsyncIterable<string> => {
+  return getProvider(agent.provider, settings).streamChat({
+    model: agent.modelId,
+    systemInstruction: agent.systemInstruction,
+    history,
+    message: newMessage,
+    signal,
+  });
+};
+
+/**
+ * Streams an Agent's reply to a question about the vault, grounded in the retrieved passages.
+ * Only the bare question goes into `history` afterwards; the passages are sent with this turn alone.
+ */
+export const streamVaultChatWithAgent = (
+  agent: Agent,
+  history: ChatMessage[],
+  question: string,
+  sources: VaultSource[],
+  settings: UserSettings,
+  signal?: AbortSignal
+): AsyncIterable<string> => {
+  const passages = sources
+    .map(s => `[${s.number}] "${s.meetingTitle}", ${new Date(s.meetingDate).toLocaleDateString()}, ${s.field}${s.start !== undefined ? ` at ${formatTimestamp(s.start)}` : ''}:\n${s.text}`)
+    .join('\n\n');
+  return streamChatWithAgent(agent, history, buildVaultQuestionPrompt(passages, question), settings, signal);
+};
+
+/**
+ * Refines the existing report based on user instructions, using the agent's provider
+ */
+export const refineMeetingReport = async (
+  currentReport: string,
+  transcription: string,
+  instruction: string,
+  agent: Agent,
+  settings: UserSettings
+): Promise<string> => {
+  return getProvider(agent.provider, settings).refine({
+    model: agent.modelId,
+    systemInstruction: agent.systemInstruction,
+    currentReport,
+    transcription,
+    instruction,
+  });
+};
+
+// Earlier exchanges sent along with a follow-up question
+const QUESTION_HISTORY_LENGTH = 6;
+
+/**
+ * Answers a question about a single meeting from its transcript and report.
+ * Cited passages are resolved and copied into the answer.
+ */
+export const askAboutMeeting = async (
+  meeting: MeetingData,
+  question: string,
+  agent: Agent,
+  settings: UserSettings
+): Promise<MeetingQuestion> => {
+  const passages = getTranscriptPassages(meeting);
+  if (passages.length === 0) throw new Error("This meeting has no transcript to answer from.");
+
+  const numbered = passages
+    .map(p => `[${p.number}]${p.start !== undefined ? ` (${formatTimestamp(p.start)})` : ''}${p.speaker ? ` ${p.speaker}:` : ''} ${p.text}`)
+    .join('\n');
+  const history = (meeting.questions || []).slice(-QUESTION_HISTORY_LENGTH);
+
+  const result = await getProvider(agent.provider, settings).generateJson<{ answer: string; citations: number[] }>({
+    model: agent.modelId,
+    systemInstruction: agent.systemInstruction,
+    prompt: buildMeetingQuestionPrompt(meeting.title, numbered, meeting.report || '', history, question),
+    schemaName: 'meeting_answer',
+    schema: MEETING_ANSWER_SCHEMA,
+  });
+
+  // Keep only citations that point at real passages, in transcript order
+  const cited = Array.from(new Set(result.citations || [])).sort((a, b) => a - b);
+  const citations: AnswerCitation[] = cited
+    .map(n => passages[n - 1])
+    .filter(p => !!p)
+    .map(p => ({ passage: p.number, speaker: p.speaker, start: p.start, text: p.text }));
+
+  return {
+    id: uuidv4(),
+    question,
+    answer: result.answer,
+    citations,
+    agentId: agent.id,
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Picks a speech-capable provider: the agent's own if it can transcribe and is
+ * configured, otherwise the first configured one. Falls back to Gemini, which
+ * may still work with the build-time key.
+ */
+export const getSpeechProvider = (settings: UserSettings, preferred?: ModelProvider): LLMProvider => {
+  const isConfigured = (p: ModelProvider) => !!(settings.apiKeys[p] || settings.baseUrls?.[p]);
+  const configured = preferred && SPEECH_PROVIDERS.includes(preferred) && isConfigured(preferred)
+    ? preferred
+    : SPEECH_PROVIDERS.find(isConfigured);
+  const provider = getProvider(configured || 'google', settings);
+  if (!provider.transcribe) throw new Error("No speech-capable provider is configured.");
+  return provider;
+};
+
+/**
+ * The embedder chosen in settings for the vault index. Providers without an
+ * embeddings API, or no choice at all, fall back to the local one.
+ */
+export const getEmbedder = (settings: UserSettings): Embedder => {
+  const choice = settings.embeddingProvider || 'local';
+  if (choice === 'local') return createLocalEmbedder();
+
+  const provider = getProvider(choice, settings);
+  if (!provider.embed) return createLocalEmbedder();
+  const baseUrl = settings.baseUrls?.[choice];
+  return {
+    // A custom endpoint may serve a different model under the same name
+    id: `${choice}${baseUrl ? `@${baseUrl}` : ''}`,
+    embed: request => provider.embed!(request),
+  };
+};
+
+/**
+ * Process Meeting Audio (Agent-aware).
+ * Gemini agents handle the audio directly; other agents get a transcript from
+ * a speech-capable provider and write the report from the text.
+ */
+export const processMeetingAudio = async (
+  audioBlob: Blob,
+  agent: Agent,
+  targetLanguage: string = 'auto',
+  settings: UserSettings,
+  signal?: AbortSignal
+): Promise<ProcessingResult> => {
+  if (agent.provider === 'google') {
+    return processAudioWithGemini(audioBlob, agent, targetLanguage, settings.apiKeys.google, signal);
+  }
+
+  const segments = await getSpeechProvider(settings).transcribe!({ audio: audioBlob, targetLanguage, signal });
+  return generateReportFromTranscript(segments, agent, targetLanguage, settings, signal);
+};
+
+/**
+ * Writes the report for an already transcribed meeting with the agent's own provider.
+ */
+export const generateReportFromTranscript = async (
+  segments: TranscriptSegment[],
+  agent: Agent,
+  targetLanguage: string,
+  settings: UserSettings,
+  signal?: AbortSignal
+): Promise<ProcessingResult> => {
+  const provider = getProvider(agent.provider, settings);
+  const transcription = segmentsToText(segments);
+
+  // The transcript is already known, so don't ask the model to repeat it
+  const resultSchema = buildMeetingResultSchema(agent.reportTemplate);
+  const { segments: _, ...properties } = resultSchema.properties!;
+  const result = await provider.generateJson<Omit<ProcessingResult, 'transcription' | 'segments'>>({
+    model: agent.modelId,
+    systemInstruction: agent.systemInstruction,
+    prompt: buildMeetingPrompt(agent, targetLanguage, transcription),
+    schemaName: 'meeting_report',
+    schema: {
+      ...resultSchema,
+      properties,
+      required: resultSchema.required!.filter(k => k !== 'segments'),
+    },
+    signal,
+  });
+
+  return { ...result, transcription, segments };
+};
+
+/**
+ * Generates a short session title from the first exchange of a conversation
+ */
+export const generateChatTitle = async (
+  agent: Agent,
+  messages: ChatMessage[],
+  settings: UserSettings
+): Promise<string> => {
+  const excerpt = messages
+    .slice(0, 2)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.substring(0, 500)}`)
+    .join('\n');
+
+  const title = await getProvider(agent.provider, settings).chat({
+    model: agent.modelId,
+    systemInstruction: "You write short, descriptive titles for conversations.",
+    history: [],
+    message: `Write a title of at most 6 words for this conversation, in the language it is written in. Output ONLY the title.\n\n${excerpt}`,
+  });
+
+  return title.trim().replace(/^["'#*\s]+|["'*.\s]+$/g, '').substring(0, 60);
+};
@@ -0,0 +1,167 @@
+import { ChatMessage } from "../types";
+import { LLMProvider, ProviderConfig, ProviderError, buildRefinePrompt, readServerSentEvents } from "./llmProvider";
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const API_VERSION = '2023-06-01';
+const MAX_TOKENS = 4096;
+// Reports come back whole (with action items and tags in structured output), so long meetings need more room
+const REPORT_MAX_TOKENS = 16384;
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Maps our chat history onto the Messages API, which requires the
+ * conversation to start with a user turn and roles to alternate.
+ */
+const toAnthropicMessages = (history: ChatMessage[], message: string): AnthropicMessage[] => {
+  const messages: AnthropicMessage[] = [];
+  [...history, { role: 'user', content: message } as ChatMessage].forEach(h => {
+    const role = h.role === 'model' ? 'assistant' : 'user';
+    const last = messages[messages.length - 1];
+    if (!last && role === 'assistant') return;
+    if (last && last.role === role) {
+      last.content += `\n\n${h.content}`;
+    } else {
+      messages.push({ role, content: h.content });
+    }
+  });
+  return messages;
+};
+
+// The parts of a Messages API response read here
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; name: string; input: unknown }
+  | { type: string };
+
+interface MessageResponse {
+  content?: ContentBlock[];
+  stop_reason?: string;
+}
+
+const isTextBlock = (block: ContentBlock): block is { type: 'text'; text: string } => block.type === 'text';
+
+const isToolUseBlock = (block: ContentBlock): block is { type: 'tool_use'; name: string; input: unknown } => block.type === 'tool_use';
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const text = await response.text();
+  try {
+    const json = JSON.parse(text);
+    return json.error?.message || text;
+  } catch {
+    return text || response.statusText;
+  }
+};
+
+/**
+ * Provider backed by the Anthropic Messages API. `baseUrl` can point at a local mock for testing.
+ */
+export const createAnthropicProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const send = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    if (!config.apiKey && !config.baseUrl) {
+      throw new ProviderError('anthropic', "API Key is missing. Please check your settings.");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'anthropic-version': API_VERSION,
+          // Required for calling the API straight from the browser
+          'anthropic-dangerous-direct-browser-access': 'true',
+          ...(config.apiKey ? { 'x-api-key': config.apiKey } : {}),
+        },
+        body: JSON.stringify({ max_tokens: MAX_TOKENS, ...body }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ProviderError('anthropic', `Could not reach ${baseUrl}. ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new ProviderError('anthropic', await readErrorMessage(response), response.status);
+    }
+    return response;
+  };
+
+  const createMessage = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<MessageResponse> =>
+    (await send(body, signal)).json();
+
+  // A cut-off tool input or report is unusable, so it fails here rather than as broken JSON later
+  const requireComplete = (json: MessageResponse): MessageResponse => {
+    if (json.stop_reason === 'max_tokens') {
+      throw new ProviderError('anthropic', `The response was cut off at the ${REPORT_MAX_TOKENS}-token output limit.`);
+    }
+    return json;
+  };
+
+  const textOf = (json: MessageResponse): string =>
+    (json.content || [])
+      .filter(isTextBlock)
+      .map(block => block.text)
+      .join('');
+
+  return {
+    chat: async ({ model, systemInstruction, history, message }) => {
+      const json = await createMessage({
+        model,
+        system: systemInstruction || undefined,
+        messages: toAnthropicMessages(history, message),
+      });
+      return textOf(json) || "No response generated.";
+    },
+
+    streamChat: async function* ({ model, systemInstruction, history, message, signal }) {
+      const response = await send({
+        model,
+        system: systemInstruction || undefined,
+        messages: toAnthropicMessages(history, message),
+        stream: true,
+      }, signal);
+
+      for await (const data of readServerSentEvents(response)) {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield event.delta.text;
+        } else if (event.type === 'error') {
+          throw new ProviderError('anthropic', event.error?.message || "Stream error");
+        } else if (event.type === 'message_stop') {
+          return;
+        }
+      }
+    },
+
+    // Structured output is done by forcing a single tool call whose input schema is the requested schema
+    generateJson: async <T>({ model, systemInstruction, prompt, schemaName, schema, signal }) => {
+      const json = requireComplete(await createMessage({
+        model,
+        max_tokens: REPORT_MAX_TOKENS,
+        system: systemInstruction || undefined,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [{ name: schemaName, description: "Return the result in this format.", input_schema: schema }],
+        tool_choice: { type: 'tool', name: schemaName },
+      }, signal));
+      const toolUse = (json.content || []).find(isToolUseBlock);
+      if (!toolUse) throw new ProviderError('anthropic', "Model did not return structured output.");
+      return toolUse.input as T;
+    },
+
+    refine: async (request) => {
+      const json = requireComplete(await createMessage({
+        model: request.model,
+        max_tokens: REPORT_MAX_TOKENS,
+        system: request.systemInstruction || undefined,
+        messages: [{ role: 'user', content: buildRefinePrompt(request) }],
+      }));
+      return textOf(json) || request.currentReport;
+    },
+  };
+};
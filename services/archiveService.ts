@@ -0,0 +1,103 @@
+import { MeetingData } from "../types";
+import { Backup, BackupFormatError, upgradeBackup } from "./backupService";
+import { extensionForMimeType } from "./audioService";
+import { ZipFileEntry, crc32Blob, createZipFromBlobs, readZip } from "./zip";
+
+// Archive backups are ZIP files: a manifest, the JSON backup and one audio file per meeting
+const ARCHIVE_FORMAT = 'nexus-archive';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+const BACKUP_FILE = 'backup.json';
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  createdAt: string;
+  backupFile: string;
+  audio: { meetingId: string; path: string; mimeType: string; size: number }[];
+}
+
+export interface ArchiveProgress {
+  label: string;
+  done: number;  // bytes
+  total: number; // bytes
+}
+
+/**
+ * Packs a backup and the recordings of its meetings into one ZIP file.
+ * Audio is streamed, so vaults larger than memory can be archived.
+ */
+export const createArchive = async (
+  backup: Backup,
+  meetings: MeetingData[],
+  onProgress: (progress: ArchiveProgress) => void
+): Promise<Blob> => {
+  const withAudio = meetings.filter((m): m is MeetingData & { audioBlob: Blob } => !!m.audioBlob);
+  const audio = withAudio.map(m => ({
+    meetingId: m.id,
+    path: `audio/${m.id}.${extensionForMimeType(m.audioBlob.type)}`,
+    mimeType: m.audioBlob.type,
+    size: m.audioBlob.size,
+  }));
+  const manifest: ArchiveManifest = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, createdAt: backup.date, backupFile: BACKUP_FILE, audio };
+
+  const json = (value: unknown) => new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  return createZipFromBlobs([
+    { name: MANIFEST_FILE, data: json(manifest) },
+    { name: BACKUP_FILE, data: json(backup) },
+    ...withAudio.map((m, i) => ({ name: audio[i].path, data: m.audioBlob, date: new Date(m.date) })),
+  ], (done, total) => onProgress({ label: 'Packing recordings', done, total }));
+};
+
+const readJsonEntry = async (entry: ZipFileEntry | undefined, what: string) => {
+  if (!entry) throw new BackupFormatError(`The archive has no ${what}.`);
+  try {
+    return JSON.parse(await entry.data.text());
+  } catch {
+    throw new BackupFormatError(`The archive's ${what} is not valid JSON.`);
+  }
+};
+
+export const isArchiveFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+/**
+ * Reads an archive into a backup whose meetings carry their recordings again.
+ * Recordings are checked against their checksums but stay in the file until stored.
+ */
+export const readArchive = async (file: Blob, onProgress: (progress: ArchiveProgress) => void): Promise<Backup> => {
+  const entries = new Map((await readZip(file)).map(e => [e.name, e]));
+
+  const manifest: ArchiveManifest = await readJsonEntry(entries.get(MANIFEST_FILE), 'manifest');
+  if (manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.audio)) {
+    throw new BackupFormatError("The file is not a meeting archive.");
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new BackupFormatError(`The archive was made by a newer version of the app (format ${manifest.version}).`);
+  }
+
+  const backup = upgradeBackup(await readJsonEntry(entries.get(manifest.backupFile), 'backup'));
+
+  const total = manifest.audio.reduce((sum, a) => sum + a.size, 0);
+  let done = 0;
+  const audioById = new Map<string, Blob>();
+  for (const item of manifest.audio) {
+    const entry = entries.get(item.path);
+    if (!entry) throw new BackupFormatError(`The recording ${item.path} is missing from the archive.`);
+    const crc = await crc32Blob(entry.data, bytes => {
+      done += bytes;
+      onProgress({ label: 'Checking recordings', done, total });
+    });
+    if (crc !== entry.crc) throw new BackupFormatError(`The recording ${item.path} is damaged.`);
+    // Slices carry no type; players need it to pick a decoder
+    audioById.set(item.meetingId, entry.data.slice(0, entry.size, item.mimeType));
+  }
+
+  return {
+    ...backup,
+    meetings: backup.meetings.map(m => {
+      const audioBlob = audioById.get(m.id);
+      return audioBlob ? { ...m, audioBlob } : m;
+    }),
+  };
+};
@@ -0,0 +1,189 @@
+// Speech models don't need more than 16 kHz mono, which keeps chunks small
+const TARGET_SAMPLE_RATE = 16000;
+
+// Media types we accept, by file extension (browsers often leave File.type empty for m4a)
+export const MEDIA_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+/**
+ * File extension for a media type, as expected by upload APIs that sniff the name.
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+  const base = mimeType.split(';')[0].trim();
+  if (base === 'audio/x-m4a') return 'm4a';
+  return Object.keys(MEDIA_TYPES).find(ext => MEDIA_TYPES[ext] === base) || 'webm';
+};
+
+export interface AudioChunk {
+  index: number;
+  start: number; // seconds
+  end: number;   // seconds
+}
+
+// Decoded audio, mixed down to mono 16-bit samples: an hour at 16 kHz takes ~115 MB
+export interface MonoAudio {
+  sampleRate: number;
+  duration: number; // seconds
+  samples: Int16Array;
+}
+
+// Audio that can be read a time range at a time
+export interface AudioSource {
+  duration: number; // seconds
+  // The range as a 16 kHz mono WAV file
+  readRange(start: number, end: number): Promise<Blob>;
+}
+
+const mixDown = (buffer: AudioBuffer): MonoAudio => {
+  const samples = new Int16Array(buffer.length);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = 0; i < buffer.length; i++) {
+    let sample = 0;
+    for (const data of channels) sample += data[i];
+    sample = Math.max(-1, Math.min(1, sample / channels.length));
+    samples[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return { sampleRate: buffer.sampleRate, duration: buffer.duration, samples };
+};
+
+const decodeToMono = async (data: ArrayBuffer) => {
+  // decodeAudioData resamples to the context's rate; the length argument is irrelevant here
+  const ctx = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  return mixDown(await ctx.decodeAudioData(data));
+};
+
+/**
+ * Decodes any browser-supported audio (or video) file to 16 kHz mono. The decoded
+ * channels are released once mixed down, so only the mono copy is kept.
+ */
+export const decodeAudio = async (blob: Blob): Promise<MonoAudio> => decodeToMono(await blob.arrayBuffer());
+
+interface WavLayout {
+  format: number; // 1 = PCM, 3 = float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataSize: number;
+}
+
+type WavFormat = Omit<WavLayout, 'dataOffset' | 'dataSize'>;
+
+// Bytes read to find the header; chunks before the audio data (metadata) rarely take more
+const WAV_HEADER_BYTES = 64 * 1024;
+
+const readWavLayout = async (blob: Blob): Promise<WavLayout | null> => {
+  const view = new DataView(await blob.slice(0, WAV_HEADER_BYTES).arrayBuffer());
+  const tag = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+  if (view.byteLength < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') return null;
+
+  let fmt: WavFormat | null = null;
+  for (let offset = 12; offset + 8 <= view.byteLength;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 24 <= view.byteLength) {
+      const format = view.getUint16(offset + 8, true);
+      fmt = {
+        // WAVE_FORMAT_EXTENSIBLE keeps the actual format in its sub-format GUID
+        format: format === 0xfffe && offset + 34 <= view.byteLength ? view.getUint16(offset + 32, true) : format,
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        blockAlign: view.getUint16(offset + 20, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data') {
+      if (!fmt || (fmt.format !== 1 && fmt.format !== 3) || fmt.blockAlign === 0) return null;
+      const dataOffset = offset + 8;
+      // Streamed recorders may leave the size unset
+      const dataSize = size === 0 || size === 0xffffffff ? blob.size - dataOffset : Math.min(size, blob.size - dataOffset);
+      return { ...fmt, dataOffset, dataSize };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+};
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+const wavHeader = (layout: WavFormat, dataSize: number) => {
+  const view = new DataView(new ArrayBuffer(44));
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, layout.format, true);
+  view.setUint16(22, layout.channels, true);
+  view.setUint32(24, layout.sampleRate, true);
+  view.setUint32(28, layout.sampleRate * layout.blockAlign, true);
+  view.setUint16(32, layout.blockAlign, true);
+  view.setUint16(34, layout.bitsPerSample, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  return view;
+};
+
+/**
+ * Opens a recording for reading in time ranges. WAV files are decoded a range at a
+ * time straight from the file. Compressed formats can't be cut at arbitrary bytes, so
+ * they are decoded once and kept as mono 16 kHz samples.
+ */
+export const openAudioSource = async (blob: Blob): Promise<AudioSource> => {
+  const wav = await readWavLayout(blob);
+  if (wav) {
+    const bytesPerSecond = wav.sampleRate * wav.blockAlign;
+    const byteAt = (seconds: number) => Math.min(wav.dataSize, Math.floor(seconds * wav.sampleRate) * wav.blockAlign);
+    return {
+      duration: wav.dataSize / bytesPerSecond,
+      readRange: async (start, end) => {
+        const from = byteAt(start);
+        const to = byteAt(end);
+        const data = blob.slice(wav.dataOffset + from, wav.dataOffset + to);
+        return encodeWav(await decodeToMono(await new Blob([wavHeader(wav, to - from), data]).arrayBuffer()));
+      },
+    };
+  }
+
+  const audio = await decodeAudio(blob);
+  return { duration: audio.duration, readRange: async (start, end) => encodeWav(audio, start, end) };
+};
+
+/**
+ * Splits a duration into fixed-size chunks that overlap, so words cut at a
+ * boundary are heard in full by one of the two neighbouring chunks.
+ */
+export const planChunks = (duration: number, chunkSeconds: number, overlapSeconds: number): AudioChunk[] => {
+  const chunks: AudioChunk[] = [];
+  const step = chunkSeconds - overlapSeconds;
+  for (let start = 0, index = 0; start < duration; start += step, index++) {
+    chunks.push({ index, start, end: Math.min(start + chunkSeconds, duration) });
+    if (start + chunkSeconds >= duration) break;
+  }
+  return chunks;
+};
+
+/**
+ * Encodes a time range of decoded audio as a 16-bit mono WAV file.
+ */
+export const encodeWav = (audio: MonoAudio, start: number = 0, end: number = audio.duration): Blob => {
+  const rate = audio.sampleRate;
+  const from = Math.min(Math.floor(start * rate), audio.samples.length);
+  const to = Math.min(Math.floor(end * rate), audio.samples.length);
+  const samples = audio.samples.subarray(from, Math.max(from, to));
+
+  const header = wavHeader(
+    { format: 1, channels: 1, sampleRate: rate, bitsPerSample: 16, blockAlign: 2 },
+    samples.byteLength
+  );
+  return new Blob([header, samples], { type: 'audio/wav' });
+};
@@ -0,0 +1,308 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Agent, ChatMessage, ChatSession, MeetingData, UserSettings, WebTool } from "../types";
+import { sessionsFromHistories } from "./chatSessionService";
+import { EMPTY_API_KEYS, hasApiKeys } from "./keyEncryptionService";
+import { AGENT_SCHEMA, CHAT_SESSION_SCHEMA, MEETING_SCHEMA, RecordSchema, WEB_TOOL_SCHEMA, canonicalJson, fillMeetingLists, findProblem, isObject, meetingContent } from "./recordSchema";
+
+export const BACKUP_VERSION = 4;
+
+export interface Backup {
+  version: number;
+  date: string;
+  settings: UserSettings;
+  meetings: MeetingData[];
+  chatSessions: ChatSession[];
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+/**
+ * Upgrades a backup from the version it is keyed by to the next one.
+ * Old files are run through every step up to BACKUP_VERSION.
+ */
+const MIGRATIONS: Record<number, (backup: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1 stored one chat history per agent
+  1: ({ chatHistories, ...backup }) => ({
+    ...backup,
+    chatSessions: backup.chatSessions ?? (isObject(chatHistories) ? sessionsFromHistories(chatHistories as Record<string, ChatMessage[]>) : []),
+  }),
+  // Version 2 stored the API keys in plain text; version 3 only carries them encrypted.
+  // Plain keys are still accepted on import, so nothing needs rewriting.
+  2: backup => backup,
+  // Version 3 could hold meetings without suggested tags (after their tags were edited)
+  3: backup => ({
+    ...backup,
+    meetings: Array.isArray(backup.meetings) ? backup.meetings.map(fillMeetingLists) : backup.meetings,
+  }),
+};
+
+const checkRecords = (records: unknown, path: string, schema: RecordSchema) => {
+  if (!Array.isArray(records)) throw new BackupFormatError(`${path} should be a list.`);
+  records.forEach((record, i) => {
+    const problem = findProblem(record, schema);
+    if (problem) throw new BackupFormatError(`${path}[${i}]: ${problem}.`);
+  });
+};
+
+/**
+ * Checks the shape of everything an import reads, so a malformed file is
+ * rejected up front instead of breaking the app after it was merged.
+ */
+const validateBackup = (backup: Record<string, unknown>): Backup => {
+  const { settings } = backup;
+  if (!isObject(settings)) throw new BackupFormatError("The backup has no settings.");
+  checkRecords(settings.agents, 'settings.agents', AGENT_SCHEMA);
+  checkRecords(settings.webTools ?? [], 'settings.webTools', WEB_TOOL_SCHEMA);
+  checkRecords(backup.meetings ?? [], 'meetings', MEETING_SCHEMA);
+  checkRecords(backup.chatSessions ?? [], 'chatSessions', CHAT_SESSION_SCHEMA);
+  if (typeof backup.date !== 'string') throw new BackupFormatError("The backup has no date.");
+
+  // The records were checked above
+  return {
+    version: BACKUP_VERSION,
+    date: backup.date,
+    settings: {
+      ...settings,
+      webTools: settings.webTools ?? [],
+      apiKeys: { ...EMPTY_API_KEYS, ...(isObject(settings.apiKeys) ? settings.apiKeys : {}) },
+    } as UserSettings,
+    meetings: (backup.meetings ?? []) as MeetingData[],
+    chatSessions: (backup.chatSessions ?? []) as ChatSession[],
+  };
+};
+
+/**
+ * Brings parsed backup data of any version into the current format.
+ */
+export const upgradeBackup = (data: unknown): Backup => {
+  if (!isObject(data) || typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new BackupFormatError("The file is not a backup.");
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`The backup was made by a newer version of the app (format ${data.version}).`);
+  }
+
+  let backup = data;
+  for (let version = data.version; version < BACKUP_VERSION; version++) {
+    backup = MIGRATIONS[version](backup);
+  }
+  return validateBackup(backup);
+};
+
+export const parseBackup = (text: string): Backup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("The file is not valid JSON.");
+  }
+  return upgradeBackup(data);
+};
+
+export const createBackup = (settings: UserSettings, meetings: MeetingData[], chatSessions: ChatSession[]): Backup => ({
+  version: BACKUP_VERSION,
+  date: new Date().toISOString(),
+  settings,
+  meetings: meetings.map(({ audioBlob, audioUrl, ...rest }) => rest), // Exclude blobs/urls
+  chatSessions,
+});
+
+// --- Import preview and merge ---
+
+export type BackupCategory = 'agents' | 'webTools' | 'meetings' | 'chats';
+
+export const BACKUP_CATEGORIES: { id: BackupCategory; label: string }[] = [
+  { id: 'agents', label: 'Agents' },
+  { id: 'webTools', label: 'Web Tools' },
+  { id: 'meetings', label: 'Meetings' },
+  { id: 'chats', label: 'Chats' },
+];
+
+// new: not here yet; changed: the backup copy is newer than ours; conflict: ours was
+// edited too (or there is no way to tell), so the user decides
+export type ImportItemStatus = 'new' | 'unchanged' | 'changed' | 'conflict';
+
+export type ConflictChoice = 'keep' | 'replace' | 'both';
+
+export interface ImportItem {
+  id: string;
+  label: string;
+  status: ImportItemStatus;
+}
+
+export type ImportPreview = Record<BackupCategory, ImportItem[]>;
+
+export interface ImportSelection {
+  categories: BackupCategory[];
+  includeKeys: boolean;
+  conflicts: Record<string, ConflictChoice>; // by `${category}:${id}`, defaults to 'keep'
+}
+
+export interface ImportResult {
+  settings: UserSettings;
+  meetings: MeetingData[];
+  chatSessions: ChatSession[];
+}
+
+export const conflictKey = (category: BackupCategory, id: string) => `${category}:${id}`;
+
+// The record type behind each category
+interface CategoryRecords {
+  agents: Agent;
+  webTools: WebTool;
+  meetings: MeetingData;
+  chats: ChatSession;
+}
+
+// Only report edits and questions are timestamped; other meeting edits leave no trace
+const meetingModified = (meeting: MeetingData) => Math.max(
+  meeting.date,
+  ...(meeting.reportVersions || []).map(v => v.createdAt),
+  ...(meeting.questions || []).map(q => q.createdAt)
+);
+
+const untimestampedMeetingContent = (meeting: MeetingData) => {
+  const { report, reportVersions, questions, ...rest } = meetingContent(meeting);
+  return rest;
+};
+
+interface CategorySpec<T> {
+  label: (item: T) => string;
+  content: (item: T) => unknown;
+  modified?: (item: T) => number; // records without timestamps always conflict when they differ
+  // Content whose edits don't move `modified`; records that differ here conflict whatever their dates
+  untimestamped?: (item: T) => unknown;
+}
+
+const SPECS: { [C in BackupCategory]: CategorySpec<CategoryRecords[C]> } = {
+  agents: { label: a => `${a.icon} ${a.name}`, content: a => a },
+  webTools: { label: t => `${t.icon} ${t.name}`, content: t => t },
+  meetings: { label: m => m.title, content: meetingContent, modified: meetingModified, untimestamped: untimestampedMeetingContent },
+  chats: { label: s => s.title, content: s => s, modified: s => s.updatedAt },
+};
+
+const isNewer = <T>(theirs: T, ours: T, spec: CategorySpec<T>) => {
+  if (!spec.modified || spec.modified(theirs) <= spec.modified(ours)) return false;
+  return !spec.untimestamped || canonicalJson(spec.untimestamped(theirs)) === canonicalJson(spec.untimestamped(ours));
+};
+
+const compare = <T extends { id: string }>(incoming: T[], current: T[], spec: CategorySpec<T>): ImportItem[] => {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  return incoming.map(item => {
+    const ours = currentById.get(item.id);
+    let status: ImportItemStatus = 'new';
+    if (ours) {
+      if (canonicalJson(spec.content(ours)) === canonicalJson(spec.content(item))) status = 'unchanged';
+      else status = isNewer(item, ours, spec) ? 'changed' : 'conflict';
+    }
+    return { id: item.id, label: spec.label(item), status };
+  });
+};
+
+const incomingRecords = (backup: Backup) => ({
+  agents: backup.settings.agents,
+  webTools: backup.settings.webTools,
+  meetings: backup.meetings,
+  chats: backup.chatSessions,
+});
+
+const currentRecords = (current: ImportResult) => ({
+  agents: current.settings.agents,
+  webTools: current.settings.webTools,
+  meetings: current.meetings,
+  chats: current.chatSessions,
+});
+
+/**
+ * Lists what an import would bring in, per category, compared by id with what is here.
+ */
+export const previewImport = (backup: Backup, current: ImportResult): ImportPreview => {
+  const incoming = incomingRecords(backup);
+  const ours = currentRecords(current);
+  return {
+    agents: compare(incoming.agents, ours.agents, SPECS.agents),
+    webTools: compare(incoming.webTools, ours.webTools, SPECS.webTools),
+    meetings: compare(incoming.meetings, ours.meetings, SPECS.meetings),
+    chats: compare(incoming.chats, ours.chats, SPECS.chats),
+  };
+};
+
+export const backupHasKeys = (backup: Backup) =>
+  !!backup.settings.encryptedApiKeys || hasApiKeys(backup.settings.apiKeys);
+
+// "Keep both" imports the backup copy under a new id
+const COPY_MAKERS: { [C in BackupCategory]: (item: CategoryRecords[C]) => CategoryRecords[C] } = {
+  agents: a => ({ ...a, id: uuidv4(), name: `${a.name} (imported)`, isDefault: false }),
+  webTools: t => ({ ...t, id: uuidv4(), name: `${t.name} (imported)` }),
+  meetings: m => ({ ...m, id: uuidv4(), title: `${m.title} (imported)` }),
+  chats: s => ({ ...s, id: uuidv4(), title: `${s.title} (imported)` }),
+};
+
+const mergeRecords = <C extends BackupCategory>(
+  category: C,
+  incoming: CategoryRecords[C][],
+  current: CategoryRecords[C][],
+  preview: ImportItem[],
+  selection: ImportSelection,
+  resolve: (ours: CategoryRecords[C], theirs: CategoryRecords[C], replace: boolean) => CategoryRecords[C]
+): CategoryRecords[C][] => {
+  if (!selection.categories.includes(category)) return current;
+
+  const statusById = new Map(preview.map(item => [item.id, item.status]));
+  const incomingById = new Map(incoming.map(item => [item.id, item]));
+  const added: CategoryRecords[C][] = [];
+
+  const merged = current.map(ours => {
+    const theirs = incomingById.get(ours.id);
+    const status = statusById.get(ours.id);
+    if (!theirs) return ours;
+    if (status === 'unchanged') return resolve(ours, theirs, false);
+    const choice = status === 'changed' ? 'replace' : selection.conflicts[conflictKey(category, ours.id)] || 'keep';
+    if (choice === 'both') added.push(COPY_MAKERS[category](theirs));
+    return resolve(ours, theirs, choice === 'replace');
+  });
+  const fresh = incoming.filter(item => statusById.get(item.id) === 'new');
+
+  return [...merged, ...fresh, ...added];
+};
+
+// JSON backups carry no audio and archives do: a recording is never dropped, and one
+// from an archive fills in a meeting that has none
+const mergeMeeting = (ours: MeetingData, theirs: MeetingData, replace: boolean): MeetingData => {
+  const meeting = replace ? theirs : ours;
+  const audioFrom = ours.audioBlob && !(replace && theirs.audioBlob) ? ours : theirs;
+  return { ...meeting, audioBlob: audioFrom.audioBlob, audioUrl: audioFrom.audioUrl };
+};
+
+/**
+ * Merges the selected parts of a backup into the current data. Nothing is removed;
+ * records with the same id are updated, kept or duplicated as chosen.
+ * Key fields of the result are only set when the backup's keys were selected.
+ */
+export const applyImport = (backup: Backup, current: ImportResult, preview: ImportPreview, selection: ImportSelection): ImportResult => {
+  const incoming = incomingRecords(backup);
+  const ours = currentRecords(current);
+  const pick = <T>(ours: T, theirs: T, replace: boolean) => replace ? theirs : ours;
+
+  const { apiKeys, encryptedApiKeys, baseUrls } = backup.settings;
+  const settings: UserSettings = {
+    ...current.settings,
+    agents: mergeRecords('agents', incoming.agents, ours.agents, preview.agents, selection, pick),
+    webTools: mergeRecords('webTools', incoming.webTools, ours.webTools, preview.webTools, selection, pick),
+    ...(selection.includeKeys
+      ? { apiKeys, encryptedApiKeys, baseUrls: baseUrls ?? current.settings.baseUrls }
+      : { apiKeys: EMPTY_API_KEYS, encryptedApiKeys: undefined }),
+  };
+
+  return {
+    settings,
+    meetings: mergeRecords('meetings', incoming.meetings, ours.meetings, preview.meetings, selection, mergeMeeting)
+      .sort((a, b) => b.date - a.date),
+    chatSessions: mergeRecords('chats', incoming.chats, ours.chats, preview.chats, selection, pick),
+  };
+};
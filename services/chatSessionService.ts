@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, ChatSession } from "../types";
+
+export const SESSIONS_KEY = 'nexus_sessions';
+// Older versions kept one endless history per agent under this key
+const LEGACY_CHATS_KEY = 'nexus_chats';
+
+export const DEFAULT_SESSION_TITLE = 'New Chat';
+
+export const createChatSession = (agentId: string, title: string = DEFAULT_SESSION_TITLE): ChatSession => ({
+  id: uuidv4(),
+  agentId,
+  title,
+  messages: [],
+  updatedAt: Date.now()
+});
+
+/**
+ * Turns per-agent histories (old storage and backup format) into one session per agent.
+ */
+export const sessionsFromHistories = (histories: Record<string, ChatMessage[]>): ChatSession[] => {
+  return Object.entries(histories)
+    .filter(([, messages]) => messages.length > 0)
+    .map(([agentId, messages]) => {
+      const firstQuestion = messages.find(m => m.role === 'user')?.content || '';
+      return {
+        ...createChatSession(agentId, firstQuestion.substring(0, 40).trim() || 'Previous Conversation'),
+        messages,
+        updatedAt: messages[messages.length - 1].timestamp
+      };
+    });
+};
+
+/**
+ * Moves the per-agent histories of older versions into the stored sessions.
+ * Loading and checking the sessions is up to schemaService.
+ */
+export const migrateLegacyChats = () => {
+  const legacy = localStorage.getItem(LEGACY_CHATS_KEY);
+  if (!legacy) return;
+
+  try {
+    const saved = localStorage.getItem(SESSIONS_KEY);
+    const sessions: ChatSession[] = saved ? JSON.parse(saved) : [];
+    sessions.push(...sessionsFromHistories(JSON.parse(legacy)));
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+    localStorage.removeItem(LEGACY_CHATS_KEY);
+  } catch (error) {
+    console.error("Legacy chat migration failed:", error);
+  }
+};
+
+export const saveChatSessions = (sessions: ChatSession[]) => {
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
@@ -0,0 +1,143 @@
+import { MarkdownBlock, MarkdownInline, parseInline, parseMarkdown } from "./markdownService";
+import { createZip } from "./zip";
+
+// Builds a Word document from Markdown. Only the parts Word needs to open the
+// file are written: content types, relationships, styles and the body.
+
+export interface DocxSection {
+  title: string;
+  subtitle: string; // date, duration, tags...
+  markdown: string;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold && '<w:b/>',
+    style.italic && '<w:i/>',
+    style.strike && '<w:strike/>',
+    style.code && '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New"/>',
+    style.link && '<w:color w:val="0284C7"/><w:u w:val="single"/>',
+  ].filter(Boolean).join('');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+};
+
+const runs = (nodes: MarkdownInline[], style: RunStyle = {}): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return run(node.text, style);
+    case 'code': return run(node.text, { ...style, code: true });
+    case 'strong': return runs(node.children, { ...style, bold: true });
+    case 'em': return runs(node.children, { ...style, italic: true });
+    case 'del': return runs(node.children, { ...style, strike: true });
+    case 'link': return runs(node.children, { ...style, link: true });
+    case 'break': return '<w:r><w:br/></w:r>';
+  }
+}).join('');
+
+const paragraph = (content: string, props: string = '') =>
+  `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+
+const style = (id: string) => `<w:pStyle w:val="${id}"/>`;
+const indent = (level: number) => `<w:ind w:left="${360 * (level + 1)}" w:hanging="360"/>`;
+
+const CELL_BORDERS = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+  .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`).join('');
+
+const blocksToXml = (blocks: MarkdownBlock[], level: number = 0): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading':
+      return paragraph(runs(parseInline(block.text)), style(`Heading${Math.min(block.level, 3)}`));
+    case 'paragraph':
+      return paragraph(runs(parseInline(block.text)), level > 0 ? `<w:ind w:left="${360 * level}"/>` : '');
+    case 'code':
+      return block.text.split('\n').map(line => paragraph(run(line, { code: true }), '<w:spacing w:after="0"/>')).join('');
+    case 'quote':
+      return blocksToXml(block.children, level + 1);
+    case 'rule':
+      return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr>');
+    case 'list':
+      return block.items.map((item, i) => {
+        const marker = item.task ? (item.task.checked ? '☒ ' : '☐ ') : block.ordered ? `${block.start + i}. ` : '• ';
+        return paragraph(run(marker) + runs(parseInline(item.text), { strike: item.task?.checked }), indent(level))
+          + blocksToXml(item.children, level + 1);
+      }).join('');
+    case 'table': {
+      const row = (cells: string[], bold: boolean) =>
+        `<w:tr>${cells.map(cell => `<w:tc>${paragraph(runs(parseInline(cell), { bold }))}</w:tc>`).join('')}</w:tr>`;
+      return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${CELL_BORDERS}</w:tblBorders></w:tblPr>`
+        + row(block.header, true) + block.rows.map(r => row(r, false)).join('') + '</w:tbl>'
+        + paragraph(''); // Word requires a paragraph between adjacent tables
+    }
+  }
+}).join('');
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const headingStyle = (id: string, name: string, size: number, spaceBefore: number) =>
+  `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+  + `<w:pPr><w:keepNext/><w:spacing w:before="${spaceBefore}" w:after="120"/><w:outlineLvl w:val="${id === 'Title' ? 0 : Number(id.slice(-1)) - 1}"/></w:pPr>`
+  + `<w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Microsoft YaHei"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+${headingStyle('Title', 'Title', 40, 0)}
+${headingStyle('Heading1', 'heading 1', 32, 360)}
+${headingStyle('Heading2', 'heading 2', 28, 240)}
+${headingStyle('Heading3', 'heading 3', 24, 240)}
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="64748B"/></w:rPr></w:style>
+</w:styles>`;
+
+/**
+ * Creates a .docx file with one section per entry, each starting on a new page.
+ */
+export const createDocx = (sections: DocxSection[]): Blob => {
+  const body = sections.map((section, i) =>
+    (i > 0 ? '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' : '')
+    + paragraph(run(section.title), style('Title'))
+    + paragraph(run(section.subtitle), style('Subtitle'))
+    + blocksToXml(parseMarkdown(section.markdown))
+  ).join('');
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES },
+    { name: '_rels/.rels', data: ROOT_RELS },
+    { name: 'word/_rels/document.xml.rels', data: DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: STYLES },
+    { name: 'word/document.xml', data: documentXml },
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
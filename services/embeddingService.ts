@@ -0,0 +1,77 @@
+import { EmbedRequest } from "./llmProvider";
+
+/**
+ * Turns text into vectors for the vault index. `id` names the provider and model;
+ * vectors from different embedders can't be compared, so it is stored with them.
+ */
+export interface Embedder {
+  id: string;
+  embed(request: EmbedRequest): Promise<number[][]>;
+}
+
+// Size of the hashed feature space of the local embedder
+const LOCAL_DIMENSIONS = 1024;
+
+// FNV-1a, enough to spread features over the vector
+const hashFeature = (feature: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+/**
+ * Words, plus character trigrams of longer words so inflections still overlap.
+ * Scripts written without spaces (Chinese, Japanese, Korean) become character bigrams.
+ */
+const features = (text: string): string[] => {
+  const result: string[] = [];
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  tokens.forEach(token => {
+    if (CJK.test(token)) {
+      const chars = Array.from(token);
+      if (chars.length === 1) result.push(token);
+      for (let i = 0; i < chars.length - 1; i++) result.push(chars[i] + chars[i + 1]);
+      return;
+    }
+    result.push(token);
+    if (token.length > 4) {
+      for (let i = 0; i <= token.length - 3; i++) result.push(`#${token.slice(i, i + 3)}`);
+    }
+  });
+  return result;
+};
+
+/**
+ * Offline stand-in for a real embedding model: hashed bag of words and trigrams.
+ * Matches shared vocabulary only, but needs no network or key.
+ */
+export const createLocalEmbedder = (): Embedder => ({
+  id: `local:hash-${LOCAL_DIMENSIONS}`,
+  embed: async ({ texts }) => texts.map(text => {
+    const counts = new Map<string, number>();
+    features(text).forEach(f => counts.set(f, (counts.get(f) || 0) + 1));
+
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    counts.forEach((count, feature) => {
+      const hash = hashFeature(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+    });
+    return vector;
+  }),
+});
+
+export const cosineSimilarity = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
@@ -0,0 +1,212 @@
+import { MeetingData, TranscriptSegment } from "../types";
+import { MarkdownBlock, MarkdownInline, isSafeUrl, parseInline, parseMarkdown } from "./markdownService";
+import { createDocx } from "./docxService";
+import { createZip } from "./zip";
+
+export type ExportFormat = 'markdown' | 'docx' | 'pdf' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'markdown', label: 'Markdown', description: 'Report with front-matter (title, date, tags)' },
+  { id: 'docx', label: 'Word (DOCX)', description: 'Formatted report for Word or Google Docs' },
+  { id: 'pdf', label: 'PDF', description: 'Printable report, saved through the print dialog' },
+  { id: 'srt', label: 'SRT subtitles', description: 'Timestamped transcript' },
+  { id: 'vtt', label: 'WebVTT subtitles', description: 'Timestamped transcript with speaker voices' },
+];
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', docx: 'docx', pdf: 'pdf', srt: 'srt', vtt: 'vtt' };
+
+/**
+ * Whether a meeting has the content a format needs (subtitles need timestamped segments).
+ */
+export const canExport = (meeting: MeetingData, format: ExportFormat) =>
+  format === 'srt' || format === 'vtt' ? !!meeting.segments?.length : !!(meeting.report || meeting.transcription);
+
+const fileBaseName = (meeting: MeetingData) => {
+  const day = new Date(meeting.date).toISOString().slice(0, 10);
+  const title = (meeting.title || 'meeting').replace(/[\\/:*?"<>|\u0000-\u001f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80);
+  return `${day} ${title}`;
+};
+
+const formatDuration = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m}m ${Math.floor(seconds % 60)}s`;
+};
+
+const subtitleOf = (meeting: MeetingData) => [
+  new Date(meeting.date).toLocaleString(),
+  formatDuration(meeting.duration),
+  meeting.tags.length > 0 ? meeting.tags.map(t => `#${t}`).join(' ') : '',
+].filter(Boolean).join(' · ');
+
+// The report, or the transcript for meetings that never got one
+const bodyOf = (meeting: MeetingData) => meeting.report || meeting.transcription || '';
+
+const yamlString = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ')}"`;
+
+export const toMarkdown = (meeting: MeetingData): string => {
+  const frontMatter = [
+    '---',
+    `title: ${yamlString(meeting.title)}`,
+    `date: ${new Date(meeting.date).toISOString()}`,
+    `duration: ${Math.round(meeting.duration)}`,
+    `tags: [${meeting.tags.map(yamlString).join(', ')}]`,
+    meeting.language ? `language: ${yamlString(meeting.language)}` : '',
+    '---',
+  ].filter(Boolean).join('\n');
+  return `${frontMatter}\n\n${bodyOf(meeting).trim()}\n`;
+};
+
+const subtitleTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width: number = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+  segments.map((s, i) =>
+    `${i + 1}\n${subtitleTime(s.start, ',')} --> ${subtitleTime(Math.max(s.end, s.start), ',')}\n${s.speaker}: ${s.text}\n`
+  ).join('\n');
+
+export const toVtt = (segments: TranscriptSegment[]): string => {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = segments.map(s =>
+    `${subtitleTime(s.start, '.')} --> ${subtitleTime(Math.max(s.end, s.start), '.')}\n<v ${escape(s.speaker)}>${escape(s.text)}\n`
+  );
+  return `WEBVTT\n\n${cues.join('\n')}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inlineToHtml = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'code': return `<code>${escapeHtml(node.text)}</code>`;
+    case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+    case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+    case 'del': return `<del>${inlineToHtml(node.children)}</del>`;
+    case 'break': return '<br>';
+    case 'link': return isSafeUrl(node.href)
+      ? `<a href="${escapeHtml(node.href)}">${inlineToHtml(node.children)}</a>`
+      : inlineToHtml(node.children);
+  }
+}).join('');
+
+const blocksToHtml = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+  const text = (t: string) => inlineToHtml(parseInline(t));
+  switch (block.type) {
+    case 'heading': {
+      const level = Math.min(block.level + 1, 6); // h1 is the meeting title
+      return `<h${level}>${text(block.text)}</h${level}>`;
+    }
+    case 'paragraph': return `<p>${text(block.text)}</p>`;
+    case 'code': return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'quote': return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+    case 'rule': return '<hr>';
+    case 'table': return `<table><thead><tr>${block.header.map(c => `<th>${text(c)}</th>`).join('')}</tr></thead>`
+      + `<tbody>${block.rows.map(r => `<tr>${r.map(c => `<td>${text(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const items = block.items.map(item =>
+        `<li${item.task ? ' class="task"' : ''}>${item.task ? (item.task.checked ? '☑ ' : '☐ ') : ''}${text(item.text)}${blocksToHtml(item.children)}</li>`
+      ).join('');
+      return `<${tag}${block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''}>${items}</${tag}>`;
+    }
+  }
+}).join('');
+
+const PRINT_STYLES = `
+  body { font-family: Inter, system-ui, sans-serif; color: #1e293b; font-size: 11pt; line-height: 1.5; margin: 0; }
+  section { page-break-after: always; }
+  section:last-child { page-break-after: auto; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; }
+  .meta { color: #64748b; margin: 0 0 16pt; }
+  h2 { font-size: 15pt; margin: 18pt 0 6pt; } h3 { font-size: 13pt; margin: 14pt 0 4pt; } h4, h5, h6 { font-size: 11pt; margin: 12pt 0 4pt; }
+  table { border-collapse: collapse; width: 100%; margin: 8pt 0; } th, td { border: 1px solid #cbd5e1; padding: 4pt 6pt; text-align: left; vertical-align: top; }
+  pre { background: #f1f5f9; padding: 8pt; white-space: pre-wrap; } code { font-family: ui-monospace, monospace; font-size: 10pt; }
+  blockquote { border-left: 3pt solid #cbd5e1; margin: 8pt 0; padding-left: 8pt; color: #475569; }
+  li.task { list-style: none; margin-left: -1.2em; }
+  a { color: #0284c7; }
+`;
+
+const toPrintHtml = (meetings: MeetingData[]) => `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(meetings.length === 1 ? meetings[0].title : 'Meetings')}</title><style>${PRINT_STYLES}</style></head>
+<body>${meetings.map(m =>
+  `<section><h1>${escapeHtml(m.title)}</h1><p class="meta">${escapeHtml(subtitleOf(m))}</p>${blocksToHtml(parseMarkdown(bodyOf(m)))}</section>`
+).join('')}</body></html>`;
+
+/**
+ * Opens the print dialog for the meetings (from a hidden frame), where they can be saved as PDF.
+ */
+export const printMeetings = (meetings: MeetingData[]) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(toPrintHtml(meetings));
+  doc.close();
+
+  const win = frame.contentWindow!;
+  win.onafterprint = () => frame.remove();
+  // Give the frame a moment to lay out before printing
+  setTimeout(() => win.print(), 100);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Exports meetings in the chosen format. A single meeting is downloaded as one file,
+ * several as a ZIP (DOCX puts them in one document, PDF in one print job).
+ * Meetings without the needed content are skipped; their titles are returned.
+ */
+export const exportMeetings = (meetings: MeetingData[], format: ExportFormat): string[] => {
+  const exportable = meetings.filter(m => canExport(m, format));
+  const skipped = meetings.filter(m => !canExport(m, format)).map(m => m.title);
+  if (exportable.length === 0) return skipped;
+
+  if (format === 'pdf') {
+    printMeetings(exportable);
+    return skipped;
+  }
+
+  if (format === 'docx') {
+    const blob = createDocx(exportable.map(m => ({ title: m.title, subtitle: subtitleOf(m), markdown: bodyOf(m) })));
+    const name = exportable.length === 1 ? fileBaseName(exportable[0]) : `meetings-${new Date().toISOString().slice(0, 10)}`;
+    downloadBlob(blob, `${name}.docx`);
+    return skipped;
+  }
+
+  const render = format === 'markdown' ? toMarkdown : format === 'srt' ? (m: MeetingData) => toSrt(m.segments!) : (m: MeetingData) => toVtt(m.segments!);
+  const mimeType = format === 'markdown' ? 'text/markdown' : format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+
+  if (exportable.length === 1) {
+    downloadBlob(new Blob([render(exportable[0])], { type: mimeType }), `${fileBaseName(exportable[0])}.${EXTENSIONS[format]}`);
+    return skipped;
+  }
+
+  // Meetings on the same day may share a title, so names are made unique
+  const used = new Set<string>();
+  const entries = exportable.map(m => {
+    let name = fileBaseName(m);
+    for (let n = 2; used.has(name); n++) name = `${fileBaseName(m)} (${n})`;
+    used.add(name);
+    return { name: `${name}.${EXTENSIONS[format]}`, data: render(m), date: new Date(m.date) };
+  });
+  downloadBlob(createZip(entries), `meetings-${EXTENSIONS[format]}-${new Date().toISOString().slice(0, 10)}.zip`);
+  return skipped;
+};
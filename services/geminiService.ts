@@ -1,6 +1,13 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ProcessingResult, Agent, ChatMessage } from "../types";
+import { GoogleGenAI } from "@google/genai";
+import { ProcessingResult, Agent, TranscriptSegment } from "../types";
+import {
+  LLMProvider, ProviderConfig, JsonRequest, TRANSCRIPT_SEGMENTS_SCHEMA, buildMeetingResultSchema,
+  buildLanguageInstruction, buildMeetingPrompt, buildRefinePrompt
+} from "./llmProvider";
+import { segmentsToText } from "./transcriptService";
+
+const EMBEDDING_MODEL = 'gemini-embedding-001';
 
 // Helper to get client with dynamic key
 const getClient = (apiKey?: string) => {
@@ -23,62 +30,144 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
 };
 
 /**
- * Chat with an Agent
+ * Gemini implementation of the provider interface
  */
-export const chatWithAgent = async (
-  agent: Agent,
-  history: ChatMessage[],
-  newMessage: string,
-  apiKey?: string
-): Promise<string> => {
-  
-  if (agent.provider !== 'google') {
-    return `[System]: Simulation - Interaction with ${agent.provider} (${agent.modelId}) requires their specific SDK. Since this demo only uses @google/genai, please switch this Agent to use Google Gemini.`;
-  }
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => ({
+  chat: async ({ model, systemInstruction, history, message }) => {
+    const ai = getClient(config.apiKey);
+
+    try {
+      const chat = ai.chats.create({
+        model: model || 'gemini-2.5-flash',
+        config: {
+          systemInstruction,
+        },
+        history: history.map(h => ({
+          role: h.role,
+          parts: [{ text: h.content }]
+        }))
+      });
+
+      const response = await chat.sendMessage({
+        message
+      });
+
+      return response.text || "No response generated.";
+
+    } catch (error) {
+      console.error("Chat Error:", error);
+      throw error;
+    }
+  },
+
+  streamChat: async function* ({ model, systemInstruction, history, message, signal }) {
+    const ai = getClient(config.apiKey);
+
+    const stream = await ai.models.generateContentStream({
+      model: model || 'gemini-2.5-flash',
+      contents: [
+        ...history.map(h => ({ role: h.role, parts: [{ text: h.content }] })),
+        { role: 'user', parts: [{ text: message }] }
+      ],
+      config: {
+        systemInstruction,
+        abortSignal: signal,
+      }
+    });
 
-  const ai = getClient(apiKey);
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  },
 
-  try {
-    // Construct history for Gemini
-    // We strictly use generateContent here for simplicity as per guidelines for text answers
-    // But to maintain history context, we construct the prompt with history
-    
-    const chat = ai.chats.create({
-      model: agent.modelId || 'gemini-2.5-flash',
+  generateJson: async <T>({ model, systemInstruction, prompt, schema, signal }: JsonRequest) => {
+    const ai = getClient(config.apiKey);
+
+    const response = await ai.models.generateContent({
+      model: model || 'gemini-2.5-flash',
+      contents: prompt,
       config: {
-        systemInstruction: agent.systemInstruction,
-      },
-      history: history.map(h => ({
-        role: h.role,
-        parts: [{ text: h.content }]
-      }))
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      }
     });
 
-    const response = await chat.sendMessage({
-      message: newMessage
+    if (!response.text) throw new Error("No response from Gemini");
+    return JSON.parse(response.text) as T;
+  },
+
+  refine: async (request) => {
+    const ai = getClient(config.apiKey);
+
+    try {
+      const response = await ai.models.generateContent({
+        model: request.model || 'gemini-2.5-flash',
+        contents: {
+          parts: [{ text: buildRefinePrompt(request) }]
+        }
+      });
+
+      return response.text || request.currentReport;
+    } catch (error) {
+      console.error("Refinement Error:", error);
+      throw error;
+    }
+  },
+
+  embed: async ({ texts, kind }) => {
+    const ai = getClient(config.apiKey);
+
+    const response = await ai.models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { taskType: kind === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT' },
     });
 
-    return response.text || "No response generated.";
+    const vectors = (response.embeddings || []).map(e => e.values || []);
+    if (vectors.length !== texts.length) throw new Error("Gemini returned the wrong number of embeddings");
+    return vectors;
+  },
 
-  } catch (error) {
-    console.error("Chat Error:", error);
-    throw error;
-  }
-};
+  transcribe: async ({ audio, targetLanguage, context, signal }) => {
+    const ai = getClient(config.apiKey);
+    const base64Audio = await blobToBase64(audio);
+
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: {
+        parts: [
+          { inlineData: { mimeType: audio.type || 'audio/wav', data: base64Audio } },
+          { text: `Transcribe this recording verbatim, labelling speakers and timestamps. ${buildLanguageInstruction(targetLanguage)}${context ? `
+            This recording continues an earlier part, which ended with:
+            ${context}
+            Keep using the same speaker labels for the same voices.` : ''}` }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseJsonSchema: TRANSCRIPT_SEGMENTS_SCHEMA,
+        abortSignal: signal,
+      }
+    });
+
+    if (!response.text) throw new Error("No transcription from Gemini");
+    return JSON.parse(response.text) as TranscriptSegment[];
+  },
+});
 
 /**
- * Process Meeting Audio (Agent-aware)
+ * Process Meeting Audio in a single request (Gemini understands audio natively)
  */
 export const processMeetingAudio = async (
   audioBlob: Blob,
   agent: Agent,
   targetLanguage: string = 'auto',
-  apiKey?: string
+  apiKey?: string,
+  signal?: AbortSignal
 ): Promise<ProcessingResult> => {
   
-  // Note: Even if the Agent is "OpenAI" or "Anthropic", we must use Gemini 
-  // to process the audio in this backend-less demo environment.
-  // We will simply use the Agent's SYSTEM INSTRUCTION with a Gemini model.
   const ai = getClient(apiKey);
   const base64Audio = await blobToBase64(audioBlob);
   
@@ -88,37 +177,6 @@ export const processMeetingAudio = async (
   if (agent.provider === 'google' && agent.modelId) {
      model = agent.modelId;
   }
-  // If user selected 'gemini-1.5-pro' etc, we might need to be careful with deprecation, 
-  // but let's assume valid models from the settings.
-
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      title: { type: Type.STRING, description: "A short, professional title." },
-      transcription: { type: Type.STRING, description: "Full transcription." },
-      report: { 
-        type: Type.STRING, 
-        description: "The formatted report/minutes using Markdown." 
-      },
-      suggestedTags: { 
-        type: Type.ARRAY, 
-        items: { type: Type.STRING }, 
-        description: "List of 3-5 relevant tags." 
-      },
-      language: {
-        type: Type.STRING,
-        description: "The primary language detected."
-      }
-    },
-    required: ["title", "transcription", "report", "suggestedTags", "language"]
-  };
-
-  let languageInstruction = "Detect the language automatically.";
-  if (targetLanguage === 'zh-CN') {
-    languageInstruction = "The audio is in Chinese. Output the Transcription and Report in Chinese (Simplified).";
-  } else if (targetLanguage !== 'auto') {
-    languageInstruction = `The audio is in ${targetLanguage}. Output strictly in this language.`;
-  }
 
   try {
     const response = await ai.models.generateContent({
@@ -126,68 +184,23 @@ export const processMeetingAudio = async (
       contents: {
         parts: [
           { inlineData: { mimeType: audioBlob.type || 'audio/wav', data: base64Audio } },
-          {
-            text: `
-            You are acting as the following agent: ${agent.name}.
-            Agent System Instructions: ${agent.systemInstruction}
-            
-            Task:
-            1. **Language**: ${languageInstruction}
-            2. **Output**: Generate a JSON object with title, transcription, report, and tags.
-            3. **Report Style**: The 'report' field must reflect your Agent Persona defined above.
-            `
-          }
+          { text: buildMeetingPrompt(agent, targetLanguage) }
         ]
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: responseSchema,
+        responseJsonSchema: buildMeetingResultSchema(agent.reportTemplate),
+        abortSignal: signal,
       }
     });
 
     const resultText = response.text;
     if (!resultText) throw new Error("No response from Gemini");
-    return JSON.parse(resultText) as ProcessingResult;
+    const result = JSON.parse(resultText) as Omit<ProcessingResult, 'transcription'>;
+    return { ...result, transcription: segmentsToText(result.segments) };
 
   } catch (error) {
     console.error("Gemini API Error:", error);
     throw error;
   }
 };
-
-/**
- * Refines the existing report based on user instructions
- */
-export const refineMeetingReport = async (
-  currentReport: string,
-  transcription: string,
-  instruction: string,
-  apiKey?: string
-): Promise<string> => {
-  
-  const ai = getClient(apiKey);
-  const model = "gemini-2.5-flash";
-
-  try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: {
-        parts: [{
-          text: `
-          You are an AI editor.
-          **Original Transcription Context**: ${transcription.substring(0, 5000)}...
-          **Current Report**: ${currentReport}
-          **Instruction**: "${instruction}"
-          
-          Rewrite the report to satisfy the instruction. Keep markdown. Output ONLY the new report text.
-          `
-        }]
-      }
-    });
-
-    return response.text || currentReport;
-  } catch (error) {
-    console.error("Refinement Error:", error);
-    throw error;
-  }
-};
@@ -0,0 +1,157 @@
+import { SyncAdapter, SyncError } from "./syncAdapter";
+
+const GIS_SCRIPT_URL = 'https://accounts.google.com/gsi/client';
+// Hidden per-app folder: the app sees only its own files, and they don't clutter the user's Drive
+const DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive.appdata';
+const API_URL = 'https://www.googleapis.com/drive/v3';
+const UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3';
+
+export interface GoogleAccessToken {
+  token: string;
+  expiresAt: number; // ms timestamp
+}
+
+// The slice of Google Identity Services used here
+interface TokenResponse {
+  access_token?: string;
+  expires_in?: number;
+  error?: string;
+  error_description?: string;
+}
+
+interface TokenClient {
+  requestAccessToken(options?: { prompt?: string }): void;
+}
+
+declare global {
+  interface Window {
+    google?: {
+      accounts: {
+        oauth2: {
+          initTokenClient(config: {
+            client_id: string;
+            scope: string;
+            callback: (response: TokenResponse) => void;
+            error_callback?: (error: { type: string; message?: string }) => void;
+          }): TokenClient;
+        };
+      };
+    };
+  }
+}
+
+let gisLoading: Promise<void> | null = null;
+
+const loadGoogleIdentityServices = () => {
+  if (window.google?.accounts) return Promise.resolve();
+  if (!gisLoading) {
+    gisLoading = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = GIS_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        gisLoading = null;
+        reject(new SyncError('googleDrive', "Could not load Google sign-in."));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return gisLoading;
+};
+
+/**
+ * Asks Google for a Drive access token. With `interactive`, the user may be shown the
+ * consent popup (browsers only allow that from a click); otherwise it fails if consent is needed.
+ */
+export const requestGoogleAccessToken = async (clientId: string, interactive: boolean): Promise<GoogleAccessToken> => {
+  await loadGoogleIdentityServices();
+  return new Promise((resolve, reject) => {
+    const client = window.google!.accounts.oauth2.initTokenClient({
+      client_id: clientId,
+      scope: DRIVE_SCOPE,
+      callback: response => {
+        if (response.error || !response.access_token) {
+          reject(new SyncError('googleDrive', response.error_description || response.error || "Authorization failed."));
+        } else {
+          resolve({ token: response.access_token, expiresAt: Date.now() + (response.expires_in || 3600) * 1000 });
+        }
+      },
+      error_callback: error => reject(new SyncError('googleDrive', error.message || `Authorization failed (${error.type}).`)),
+    });
+    client.requestAccessToken({ prompt: interactive ? 'consent' : '' });
+  });
+};
+
+/**
+ * Sync store in the app's Drive folder. Drive has no paths, so each file is named by
+ * its full path; ids are looked up once and cached.
+ */
+export const createGoogleDriveAdapter = (getAccessToken: () => Promise<string>): SyncAdapter => {
+  const fileIds = new Map<string, string | null>();
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, Authorization: `Bearer ${await getAccessToken()}` },
+    });
+    if (!response.ok && response.status !== 404) {
+      let message = response.statusText;
+      try {
+        message = (await response.json()).error?.message || message;
+      } catch {
+        // keep the status text
+      }
+      throw new SyncError('googleDrive', message, response.status);
+    }
+    return response;
+  };
+
+  const findFile = async (path: string): Promise<string | null> => {
+    if (fileIds.has(path)) return fileIds.get(path)!;
+    const query = encodeURIComponent(`name = '${path.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}' and trashed = false`);
+    const response = await request(`${API_URL}/files?spaces=appDataFolder&q=${query}&fields=files(id)&pageSize=1`);
+    const id: string | null = (await response.json()).files?.[0]?.id ?? null;
+    fileIds.set(path, id);
+    return id;
+  };
+
+  return {
+    id: 'googleDrive',
+
+    readFile: async (path) => {
+      const id = await findFile(path);
+      if (!id) return null;
+      const response = await request(`${API_URL}/files/${id}?alt=media`);
+      if (response.status === 404) {
+        fileIds.delete(path);
+        return null;
+      }
+      return response.blob();
+    },
+
+    // Resumable uploads, so large recordings aren't limited by the 5 MB simple-upload cap
+    writeFile: async (path, data) => {
+      const id = await findFile(path);
+      const session = await request(
+        id ? `${UPLOAD_URL}/files/${id}?uploadType=resumable` : `${UPLOAD_URL}/files?uploadType=resumable`,
+        {
+          method: id ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json; charset=UTF-8', 'X-Upload-Content-Type': data.type || 'application/octet-stream' },
+          body: JSON.stringify(id ? {} : { name: path, parents: ['appDataFolder'] }),
+        }
+      );
+      const uploadUrl = session.headers.get('Location');
+      if (!uploadUrl) throw new SyncError('googleDrive', `Upload of ${path} could not be started.`);
+      const response = await request(uploadUrl, { method: 'PUT', body: data });
+      fileIds.set(path, (await response.json()).id);
+    },
+
+    deleteFile: async (path) => {
+      const id = await findFile(path);
+      if (!id) return;
+      await request(`${API_URL}/files/${id}`, { method: 'DELETE' });
+      fileIds.set(path, null);
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { MEDIA_TYPES, decodeAudio, encodeWav } from "./audioService";
+
+export interface ImportedRecording {
+  blob: Blob;
+  duration: number; // seconds
+  title: string;    // file name without extension
+  date: number;     // file's last modified time
+}
+
+export const ACCEPTED_EXTENSIONS = Object.keys(MEDIA_TYPES).map(ext => `.${ext}`).join(',');
+
+// Browsers that can't read a file sometimes never fire an event at all
+const METADATA_TIMEOUT_MS = 15000;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+/**
+ * The file's media type, trusting the extension over File.type, which browsers leave
+ * empty or set to vendor variants (audio/x-m4a, audio/x-wav) depending on the platform.
+ */
+export const detectMimeType = (file: File): string | undefined => {
+  const byExtension = MEDIA_TYPES[extensionOf(file.name)];
+  if (byExtension) return byExtension;
+  return file.type.startsWith('audio/') || file.type.startsWith('video/') ? file.type : undefined;
+};
+
+/**
+ * Reads the duration from the file's metadata without decoding it.
+ */
+export const getMediaDuration = (blob: Blob): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const media = document.createElement(blob.type.startsWith('video/') ? 'video' : 'audio');
+    let settled = false;
+    const done = (result: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      media.onloadedmetadata = media.ontimeupdate = media.onerror = null;
+      URL.revokeObjectURL(url);
+      media.removeAttribute('src');
+      result();
+    };
+    const timer = setTimeout(
+      () => done(() => reject(new Error("Timed out reading the file's duration; the format may not be supported."))),
+      METADATA_TIMEOUT_MS
+    );
+
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => {
+      // Some files (e.g. MediaRecorder webm) report Infinity until the browser has seeked to the end
+      if (Number.isFinite(media.duration)) return done(() => resolve(media.duration));
+      media.ontimeupdate = () => {
+        media.ontimeupdate = null;
+        done(() => resolve(Number.isFinite(media.duration) ? media.duration : 0));
+      };
+      media.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    media.onerror = () => done(() => reject(new Error("The file could not be read as audio or video.")));
+    media.src = url;
+  });
+};
+
+/**
+ * Prepares an audio or video file for the vault. Video is reduced to its audio track
+ * (16 kHz WAV) when the browser can decode it; otherwise the video is kept as is.
+ */
+export const importMediaFile = async (file: File): Promise<ImportedRecording> => {
+  const mimeType = detectMimeType(file);
+  if (!mimeType) throw new Error("Unsupported file type.");
+
+  const typed = new Blob([file], { type: mimeType });
+  const title = file.name.replace(/\.[^.]+$/, '') || file.name;
+  const date = file.lastModified || Date.now();
+
+  if (mimeType.startsWith('video/')) {
+    try {
+      const audio = await decodeAudio(typed);
+      return { blob: encodeWav(audio), duration: audio.duration, title, date };
+    } catch (error) {
+      console.warn(`Could not extract the audio track of ${file.name}, keeping the video`, error);
+    }
+  }
+
+  return { blob: typed, duration: await getMediaDuration(typed), title, date };
+};
@@ -0,0 +1,103 @@
+import { ApiKeys, EncryptedApiKeys, UserSettings } from "../types";
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Minutes without activity before unlocked keys lock again, unless the user picks otherwise
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export const EMPTY_API_KEYS: ApiKeys = { google: '', openai: '', anthropic: '' };
+
+/**
+ * An AES key derived from the user's passphrase. Kept in memory only, while unlocked.
+ */
+export interface PassphraseKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("Wrong passphrase.");
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<PassphraseKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt, iterations };
+};
+
+/**
+ * Derives a key for a new passphrase, with a fresh salt.
+ */
+export const createPassphraseKey = (passphrase: string) =>
+  deriveKey(passphrase, crypto.getRandomValues(new Uint8Array(SALT_BYTES)), PBKDF2_ITERATIONS);
+
+export const encryptApiKeys = async (apiKeys: ApiKeys, passphraseKey: PassphraseKey): Promise<EncryptedApiKeys> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, passphraseKey.key, new TextEncoder().encode(JSON.stringify(apiKeys)));
+  return {
+    salt: toBase64(passphraseKey.salt),
+    iv: toBase64(iv),
+    iterations: passphraseKey.iterations,
+    data: toBase64(new Uint8Array(data)),
+  };
+};
+
+/**
+ * Decrypts stored keys. Returns the derived key too, so later changes can be encrypted
+ * without asking for the passphrase again.
+ */
+export const decryptApiKeys = async (
+  encrypted: EncryptedApiKeys,
+  passphrase: string
+): Promise<{ apiKeys: ApiKeys; passphraseKey: PassphraseKey }> => {
+  const passphraseKey = await deriveKey(passphrase, fromBase64(encrypted.salt), encrypted.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encrypted.iv) }, passphraseKey.key, fromBase64(encrypted.data));
+  } catch {
+    // AES-GCM fails authentication when the key is wrong
+    throw new WrongPassphraseError();
+  }
+  return { apiKeys: { ...EMPTY_API_KEYS, ...JSON.parse(new TextDecoder().decode(plain)) }, passphraseKey };
+};
+
+export const hasApiKeys = (apiKeys: ApiKeys) => Object.values(apiKeys).some(Boolean);
+
+/**
+ * Settings as written to localStorage: with a passphrase set, keys only appear encrypted.
+ * While locked there is nothing new to encrypt and the stored ciphertext is kept.
+ */
+export const toStoredSettings = async (settings: UserSettings, passphraseKey: PassphraseKey | null): Promise<UserSettings> => {
+  if (!settings.encryptedApiKeys) return settings;
+  const encryptedApiKeys = passphraseKey ? await encryptApiKeys(settings.apiKeys, passphraseKey) : settings.encryptedApiKeys;
+  return { ...settings, apiKeys: EMPTY_API_KEYS, encryptedApiKeys };
+};
+
+/**
+ * Settings from a backup. Keys come along only if the backup has them (plain in old
+ * backups, encrypted in new ones); otherwise the current keys stay.
+ */
+export const mergeImportedSettings = (current: UserSettings, imported: UserSettings): UserSettings => {
+  if (imported.encryptedApiKeys) return { ...imported, apiKeys: EMPTY_API_KEYS };
+  // Old backups have plain keys; they are protected with the current passphrase, if any.
+  // Importing them while locked would lose them, so callers must have the keys unlocked.
+  if (imported.apiKeys && hasApiKeys(imported.apiKeys)) return { ...imported, encryptedApiKeys: current.encryptedApiKeys };
+  return { ...imported, apiKeys: current.apiKeys, encryptedApiKeys: current.encryptedApiKeys };
+};
@@ -0,0 +1,318 @@
+import { Agent, ChatMessage, ModelProvider, ReportTemplate, TemplateField, TranscriptSegment, UserSettings } from "../types";
+import { formatLocalDate } from "./actionItemService";
+
+/**
+ * Connection details for a single provider.
+ * `baseUrl` lets OpenAI-compatible servers (proxies, local models) stand in for the vendor API.
+ */
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+/**
+ * Plain JSON Schema, used for structured output across all providers.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface ChatRequest {
+  model: string;
+  systemInstruction?: string;
+  history: ChatMessage[];
+  message: string;
+}
+
+export interface StreamChatRequest extends ChatRequest {
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest {
+  model: string;
+  systemInstruction?: string;
+  prompt: string;
+  schemaName: string;
+  schema: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface RefineRequest {
+  model: string;
+  systemInstruction?: string; // the agent's persona
+  currentReport: string;
+  transcription: string;
+  instruction: string;
+}
+
+export interface EmbedRequest {
+  texts: string[];
+  // Some models embed search queries differently from the documents they are matched against
+  kind: 'document' | 'query';
+}
+
+export interface TranscribeRequest {
+  audio: Blob;
+  targetLanguage: string;
+  // Tail of the previous chunk's transcript, to keep speaker labels and wording consistent
+  context?: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  chat(request: ChatRequest): Promise<string>;
+  // Yields text chunks as they arrive; aborting `signal` ends the stream with an AbortError
+  streamChat(request: StreamChatRequest): AsyncIterable<string>;
+  generateJson<T>(request: JsonRequest): Promise<T>;
+  refine(request: RefineRequest): Promise<string>;
+  // Only implemented by speech-capable providers
+  transcribe?(request: TranscribeRequest): Promise<TranscriptSegment[]>;
+  // Only implemented by providers with an embeddings API; one vector per text
+  embed?(request: EmbedRequest): Promise<number[][]>;
+}
+
+export class ProviderError extends Error {
+  constructor(public provider: ModelProvider, message: string, public status?: number) {
+    super(`${provider}${status ? ` (${status})` : ''}: ${message}`);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Parses a Server-Sent Events body, yielding the `data` payload of each event.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export const getProviderConfig = (settings: UserSettings, provider: ModelProvider): ProviderConfig => ({
+  apiKey: settings.apiKeys[provider],
+  baseUrl: settings.baseUrls?.[provider] || undefined,
+});
+
+export const TRANSCRIPT_SEGMENTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  description: "Full transcription, split into one segment per speaker turn, in order.",
+  items: {
+    type: 'object',
+    properties: {
+      speaker: { type: 'string', description: "Speaker label such as 'Speaker 1'. Use the same label for the same voice throughout." },
+      start: { type: 'number', description: "Start time in seconds from the beginning of the recording." },
+      end: { type: 'number', description: "End time in seconds from the beginning of the recording." },
+      text: { type: 'string', description: "What was said." }
+    },
+    required: ["speaker", "start", "end", "text"]
+  }
+};
+
+export const MEETING_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: "A short, professional title." },
+    segments: TRANSCRIPT_SEGMENTS_SCHEMA,
+    report: {
+      type: 'string',
+      description: "The formatted report/minutes using Markdown."
+    },
+    actionItems: {
+      type: 'array',
+      description: "Concrete follow-up tasks agreed in the meeting.",
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', description: "What needs to be done." },
+          owner: { type: 'string', description: "Who is responsible (speaker label or name), or an empty string." },
+          dueDate: { type: 'string', description: "Deadline as YYYY-MM-DD, or an empty string if none was mentioned." }
+        },
+        required: ["text", "owner", "dueDate"]
+      }
+    },
+    suggestedTags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: "List of 3-5 relevant tags."
+    },
+    language: {
+      type: 'string',
+      description: "The primary language detected."
+    }
+  },
+  required: ["title", "segments", "report", "actionItems", "suggestedTags", "language"]
+};
+
+const TEMPLATE_FIELD_SCHEMAS: Record<TemplateField['type'], (field: TemplateField) => JsonSchema> = {
+  text: () => ({ type: 'string' }),
+  list: () => ({ type: 'array', items: { type: 'string' } }),
+  number: () => ({ type: 'number' }),
+  date: () => ({ type: 'string', description: "YYYY-MM-DD, or an empty string." }),
+  boolean: () => ({ type: 'boolean' }),
+  // The empty string is allowed, as for other fields, when the meeting didn't touch on it
+  choice: field => ({ type: 'string', enum: field.options?.length ? [...field.options, ''] : undefined }),
+};
+
+/**
+ * The meeting result schema with the agent's template fields added under `fields`.
+ * Numbers and yes/no fields are optional so the model can leave out what wasn't discussed.
+ */
+export const buildMeetingResultSchema = (template?: ReportTemplate): JsonSchema => {
+  if (!template?.fields.length) return MEETING_RESULT_SCHEMA;
+
+  const properties: Record<string, JsonSchema> = {};
+  template.fields.forEach(field => {
+    const schema = TEMPLATE_FIELD_SCHEMAS[field.type](field);
+    const description = [field.label, field.description, schema.description].filter(Boolean).join('. ');
+    properties[field.key] = { ...schema, description };
+  });
+
+  return {
+    ...MEETING_RESULT_SCHEMA,
+    properties: {
+      ...MEETING_RESULT_SCHEMA.properties,
+      fields: {
+        type: 'object',
+        description: "Additional details the agent tracks for every meeting.",
+        properties,
+        required: template.fields.filter(f => f.type !== 'number' && f.type !== 'boolean').map(f => f.key),
+      },
+    },
+    required: [...MEETING_RESULT_SCHEMA.required!, 'fields'],
+  };
+};
+
+export const MEETING_ANSWER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    answer: {
+      type: 'string',
+      description: "The answer in Markdown, citing supporting passages inline as [n] with the passage number."
+    },
+    citations: {
+      type: 'array',
+      items: { type: 'integer' },
+      description: "Numbers of the transcript passages that support the answer."
+    }
+  },
+  required: ["answer", "citations"]
+};
+
+export const buildLanguageInstruction = (targetLanguage: string) => {
+  if (targetLanguage === 'zh-CN') {
+    return "The audio is in Chinese. Output the Transcription and Report in Chinese (Simplified).";
+  } else if (targetLanguage !== 'auto') {
+    return `The audio is in ${targetLanguage}. Output strictly in this language.`;
+  }
+  return "Detect the language automatically.";
+};
+
+// Task steps for an agent's report template, numbered after the fixed ones
+const buildTemplateInstructions = (template?: ReportTemplate) => [
+  template?.sections.length
+    ? `**Report Sections**: Structure the report under these Markdown headings, in this order: ${template.sections.map(s => `"${s}"`).join(', ')}. Write "None" under a heading the meeting didn't cover.`
+    : '',
+  template?.fields.length
+    ? "**Fields**: Fill in 'fields' from what was said. Use an empty string or list when the meeting doesn't mention it."
+    : '',
+].filter(Boolean).map((step, i) => `${i + 5}. ${step}`).join('\n            ');
+
+/**
+ * Prompt for turning a meeting into a report. When `transcript` is given the
+ * audio was transcribed beforehand and the model only works from the text.
+ */
+export const buildMeetingPrompt = (agent: Agent, targetLanguage: string, transcript?: string) => `
+            You are acting as the following agent: ${agent.name}.
+            Agent System Instructions: ${agent.systemInstruction}
+            ${transcript ? `
+            Meeting Transcript:
+            ${transcript}
+            ` : ''}
+            Task:
+            1. **Language**: ${buildLanguageInstruction(targetLanguage)}
+            2. **Output**: Generate a JSON object with title, ${transcript ? '' : 'speaker-labelled transcript segments, '}report, action items, and tags.
+               Today is ${formatLocalDate()}; resolve relative deadlines ("next Friday") to dates.
+            3. **Speakers**: Refer to participants by the speaker labels used in the transcript.
+            4. **Report Style**: The 'report' field must reflect your Agent Persona defined above.
+            ${buildTemplateInstructions(agent.reportTemplate)}
+            `;
+
+/**
+ * Shared prompt for report refinement, so every provider edits reports the same way.
+ */
+export const buildRefinePrompt = ({ currentReport, transcription, instruction }: RefineRequest) => `
+          You are an AI editor.
+          **Original Transcription Context**: ${transcription.substring(0, 5000)}...
+          **Current Report**: ${currentReport}
+          **Instruction**: "${instruction}"
+
+          Rewrite the report to satisfy the instruction. Keep markdown. Output ONLY the new report text.
+          `;
+
+/**
+ * Prompt for answering a question about one meeting from its numbered transcript
+ * passages and report. `history` holds the earlier exchanges of the conversation.
+ */
+export const buildMeetingQuestionPrompt = (
+  title: string,
+  passages: string,
+  report: string,
+  history: { question: string; answer: string }[],
+  question: string
+) => `
+          You answer questions about a single meeting: "${title}".
+          Use only the transcript and report below. If they don't contain the answer, say so.
+          Cite the transcript passages that support each statement inline as [n], using the passage numbers, and list them in 'citations'.
+          Answer in the language of the question.
+
+          **Transcript** (numbered passages):
+          ${passages}
+
+          **Report**:
+          ${report || '(none)'}
+          ${history.length > 0 ? `
+          **Earlier questions in this conversation**:
+          ${history.map(h => `Q: ${h.question}\nA: ${h.answer}`).join('\n\n')}
+          ` : ''}
+          **Question**: "${question}"
+          `;
+
+/**
+ * Message for a vault chat question: the retrieved meeting passages, numbered
+ * for citing, followed by the question itself.
+ */
+export const buildVaultQuestionPrompt = (passages: string, question: string) => `
+          Answer using the following passages from my recorded meetings. Cite the passages you rely on inline as [n].
+          If they don't answer the question, say so rather than guessing.
+
+          **Meeting passages**:
+          ${passages || '(no matching passages found)'}
+
+          **Question**: ${question}
+          `;
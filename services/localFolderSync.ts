@@ -0,0 +1,74 @@
+import { SyncAdapter, SyncError } from "./syncAdapter";
+
+// Parts of the File System Access API that TypeScript's DOM types don't cover yet
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemHandle {
+    queryPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  }
+}
+
+export const isLocalFolderSupported = () => typeof window.showDirectoryPicker === 'function';
+
+export const pickSyncFolder = async (): Promise<FileSystemDirectoryHandle> => {
+  if (!window.showDirectoryPicker) throw new SyncError('localFolder', "This browser can't access local folders.");
+  return window.showDirectoryPicker({ id: 'nexus-sync', mode: 'readwrite' });
+};
+
+/**
+ * Checks (and, from a user action, asks for) write access to a stored folder.
+ * Returns false if the user hasn't granted it.
+ */
+export const ensureFolderAccess = async (handle: FileSystemDirectoryHandle, ask: boolean) => {
+  const mode = { mode: 'readwrite' as const };
+  if (!handle.queryPermission || (await handle.queryPermission(mode)) === 'granted') return true;
+  return ask && !!handle.requestPermission && (await handle.requestPermission(mode)) === 'granted';
+};
+
+const isNotFound = (err: unknown) => err instanceof DOMException && err.name === 'NotFoundError';
+
+/**
+ * Sync store in a folder on this computer, e.g. one that a desktop sync client
+ * (Dropbox, OneDrive, Syncthing) mirrors. Also handy for trying sync without a server.
+ */
+export const createLocalFolderAdapter = (root: FileSystemDirectoryHandle): SyncAdapter => {
+  const resolve = async (path: string, create: boolean) => {
+    const parts = path.split('/');
+    let dir = root;
+    for (const part of parts.slice(0, -1)) dir = await dir.getDirectoryHandle(part, { create });
+    return { dir, name: parts[parts.length - 1] };
+  };
+
+  return {
+    id: 'localFolder',
+
+    readFile: async (path) => {
+      try {
+        const { dir, name } = await resolve(path, false);
+        return await (await dir.getFileHandle(name)).getFile();
+      } catch (err) {
+        if (isNotFound(err)) return null;
+        throw err;
+      }
+    },
+
+    writeFile: async (path, data) => {
+      const { dir, name } = await resolve(path, true);
+      const writable = await (await dir.getFileHandle(name, { create: true })).createWritable();
+      await writable.write(data);
+      await writable.close();
+    },
+
+    deleteFile: async (path) => {
+      try {
+        const { dir, name } = await resolve(path, false);
+        await dir.removeEntry(name);
+      } catch (err) {
+        if (!isNotFound(err)) throw err;
+      }
+    },
+  };
+};
@@ -0,0 +1,244 @@
+// A small Markdown parser covering what the models write: headings, lists (with
+// task checkboxes), tables, fenced code, quotes and inline emphasis/links.
+// It produces a tree that is rendered as React elements, never as HTML, so
+// whatever the text contains can't inject markup.
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export interface MarkdownListItem {
+  text: string;
+  task?: { checked: boolean; line: number }; // line in the source, for toggling
+  children: MarkdownBlock[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { type: 'table'; header: string[]; align: TableAlign[]; rows: string[][] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const splitRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+    LIST_ITEM.test(line) || isTableStart(lines, i);
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+};
+
+/**
+ * Parses a list starting at `start`. Returns the list and the index of the first line after it.
+ */
+const parseList = (lines: string[], start: number, offset: number): [MarkdownBlock, number] => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const items: MarkdownListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || indentOf(match[1]) !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+
+    const itemLine = i;
+    let text = match[3];
+    i++;
+
+    // Lazy continuation lines belong to the item's own text
+    while (i < lines.length && lines[i].trim() && indentOf(lines[i]) <= baseIndent && !startsBlock(lines, i)) {
+      text += '\n' + lines[i].trim();
+      i++;
+    }
+
+    // Indented lines (and blank lines followed by more of them) are nested content
+    const contentIndent = indentOf(match[1]) + match[2].length + 1;
+    const childStart = i;
+    while (i < lines.length) {
+      if (lines[i].trim() && indentOf(lines[i]) > baseIndent) { i++; continue; }
+      if (!lines[i].trim()) {
+        let next = i;
+        while (next < lines.length && !lines[next].trim()) next++;
+        if (next < lines.length && indentOf(lines[next]) > baseIndent) { i = next; continue; }
+      }
+      break;
+    }
+    const childLines = lines.slice(childStart, i).map(l => l.replace(/^\s+/, s => s.slice(Math.min(s.length, contentIndent))));
+
+    const task = text.match(TASK);
+    items.push({
+      text: task ? task[2] : text,
+      task: task ? { checked: task[1] !== ' ', line: offset + itemLine } : undefined,
+      children: parseBlocks(childLines, offset + childStart),
+    });
+
+    // A blank line ends the list unless another item follows
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next > i && !(next < lines.length && LIST_ITEM.test(lines[next]))) break;
+    i = next;
+  }
+
+  return [{ type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items }, i];
+};
+
+const parseBlocks = (lines: string[], offset: number): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++; // closing fence (or end of text while streaming)
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const start = i;
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', children: parseBlocks(body, offset + start) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, c) => cells[c] || ''));
+      }
+      blocks.push({ type: 'table', header, align: header.map((_, c) => align[c] || null), rows });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const [list, next] = parseList(lines, i, offset);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    const body = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) body.push(lines[i++].trim());
+    blocks.push({ type: 'paragraph', text: body.join('\n') });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] =>
+  parseBlocks(source.split('\n').map(line => line.replace(/\r$/, '')), 0);
+
+const INLINE_RULES: { pattern: RegExp; build: (m: RegExpMatchArray) => MarkdownInline }[] = [
+  { pattern: /^\\([\\`*_{}[\]()#+\-.!|~>])/, build: m => ({ type: 'text', text: m[1] }) },
+  { pattern: /^(`+)([\s\S]*?[^`])\1(?!`)/, build: m => ({ type: 'code', text: m[2].trim() }) },
+  { pattern: /^\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/, build: m => ({ type: 'link', href: m[2], children: parseInline(m[1]) }) },
+  { pattern: /^<(https?:\/\/[^>\s]+)>/, build: m => ({ type: 'link', href: m[1], children: [{ type: 'text', text: m[1] }] }) },
+  { pattern: /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, build: m => ({ type: 'strong', children: parseInline(m[2]) }) },
+  { pattern: /^~~(?=\S)([\s\S]*?\S)~~/, build: m => ({ type: 'del', children: parseInline(m[1]) }) },
+  { pattern: /^\*(?=\S)([\s\S]*?\S)\*(?!\*)/, build: m => ({ type: 'em', children: parseInline(m[1]) }) },
+  { pattern: /^_(?=\S)([\s\S]*?\S)_(?![\p{L}\p{N}])/u, build: m => ({ type: 'em', children: parseInline(m[1]) }) },
+  { pattern: /^ *\n/, build: () => ({ type: 'break' }) },
+];
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let plain = '';
+  let i = 0;
+
+  const flush = () => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+  };
+
+  while (i < text.length) {
+    const rest = text.slice(i);
+    // snake_case words are not emphasis
+    const rule = /[\\`[<*_~\n ]/.test(text[i]) && !(text[i] === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] || ''))
+      ? INLINE_RULES.find(r => r.pattern.test(rest))
+      : undefined;
+    if (!rule) {
+      plain += text[i++];
+      continue;
+    }
+    const match = rest.match(rule.pattern)!;
+    const node = rule.build(match);
+    if (node.type === 'text') plain += node.text;
+    else { flush(); nodes.push(node); }
+    i += match[0].length;
+  }
+  flush();
+  return nodes;
+};
+
+/**
+ * Only web and mail links are rendered as links; anything else (javascript:, data:) stays text.
+ */
+export const isSafeUrl = (href: string) => /^(https?:|mailto:)/i.test(href.trim());
+
+/**
+ * Flips the task checkbox on the given source line.
+ */
+export const toggleTaskItem = (source: string, line: number): string => {
+  const lines = source.split('\n');
+  if (line < 0 || line >= lines.length) return source;
+  lines[line] = lines[line].replace(
+    /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/,
+    (_, prefix: string, mark: string) => `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  );
+  return lines.join('\n');
+};
@@ -0,0 +1,174 @@
+import { ChatMessage, TranscriptSegment } from "../types";
+import { LLMProvider, ProviderConfig, ProviderError, buildRefinePrompt, readServerSentEvents } from "./llmProvider";
+import { extensionForMimeType } from "./audioService";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const TRANSCRIPTION_MODEL = 'whisper-1';
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Segment of a verbose_json transcription response
+interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Item of an embeddings response; `index` is the position of the input it embeds
+interface EmbeddingData {
+  index: number;
+  embedding: number[];
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const toOpenAIMessages = (systemInstruction: string | undefined, history: ChatMessage[], message: string): OpenAIMessage[] => {
+  const messages: OpenAIMessage[] = [];
+  if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+  history.forEach(h => messages.push({ role: h.role === 'model' ? 'assistant' : 'user', content: h.content }));
+  messages.push({ role: 'user', content: message });
+  return messages;
+};
+
+/**
+ * Pulls a readable message out of an OpenAI-style error body, falling back to the raw text.
+ */
+const readErrorMessage = async (response: Response): Promise<string> => {
+  const text = await response.text();
+  try {
+    const json = JSON.parse(text);
+    return json.error?.message || json.message || text;
+  } catch {
+    return text || response.statusText;
+  }
+};
+
+/**
+ * Provider backed by the Chat Completions API. Works with any OpenAI-compatible server via `baseUrl`.
+ */
+export const createOpenAIProvider = (config: ProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (path: string, body: BodyInit, contentType?: string, signal?: AbortSignal): Promise<Response> => {
+    if (!config.apiKey && !config.baseUrl) {
+      throw new ProviderError('openai', "API Key is missing. Please check your settings.");
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: {
+          ...(contentType ? { 'Content-Type': contentType } : {}),
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ProviderError('openai', `Could not reach ${baseUrl}. ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new ProviderError('openai', await readErrorMessage(response), response.status);
+    }
+    return response;
+  };
+
+  const complete = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<string> => {
+    const response = await post('/chat/completions', JSON.stringify(body), 'application/json', signal);
+    const json = await response.json();
+    const content = json.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new ProviderError('openai', "Response contained no message content.");
+    }
+    return content;
+  };
+
+  return {
+    chat: async ({ model, systemInstruction, history, message }) => {
+      const content = await complete({
+        model,
+        messages: toOpenAIMessages(systemInstruction, history, message),
+      });
+      return content || "No response generated.";
+    },
+
+    streamChat: async function* ({ model, systemInstruction, history, message, signal }) {
+      const body = JSON.stringify({
+        model,
+        messages: toOpenAIMessages(systemInstruction, history, message),
+        stream: true,
+      });
+      const response = await post('/chat/completions', body, 'application/json', signal);
+
+      for await (const data of readServerSentEvents(response)) {
+        if (data === '[DONE]') return;
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    generateJson: async <T>({ model, systemInstruction, prompt, schemaName, schema, signal }) => {
+      const content = await complete({
+        model,
+        messages: toOpenAIMessages(systemInstruction, [], prompt),
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schemaName, schema },
+        },
+      }, signal);
+      try {
+        return JSON.parse(content) as T;
+      } catch {
+        throw new ProviderError('openai', "Model did not return valid JSON.");
+      }
+    },
+
+    refine: async (request) => {
+      const content = await complete({
+        model: request.model,
+        messages: [{ role: 'user', content: buildRefinePrompt(request) }],
+      });
+      return content || request.currentReport;
+    },
+
+    embed: async ({ texts }) => {
+      const response = await post('/embeddings', JSON.stringify({ model: EMBEDDING_MODEL, input: texts }), 'application/json');
+      const json = await response.json();
+      if (!Array.isArray(json.data)) {
+        throw new ProviderError('openai', "Response contained no embeddings.");
+      }
+      return [...(json.data as EmbeddingData[])]
+        .sort((a, b) => a.index - b.index)
+        .map(d => d.embedding);
+    },
+
+    transcribe: async ({ audio, targetLanguage, context, signal }) => {
+      const form = new FormData();
+      form.append('file', audio, `recording.${extensionForMimeType(audio.type)}`);
+      form.append('model', TRANSCRIPTION_MODEL);
+      form.append('response_format', 'verbose_json');
+      if (targetLanguage !== 'auto') form.append('language', targetLanguage.split('-')[0]);
+      if (context) form.append('prompt', context);
+
+      // Let the browser set the multipart boundary
+      const response = await post('/audio/transcriptions', form, undefined, signal);
+      const json = await response.json();
+
+      // Whisper does not diarize, so everything is attributed to a single speaker
+      if (!Array.isArray(json.segments)) {
+        return json.text ? [{ speaker: 'Speaker 1', start: 0, end: json.duration || 0, text: json.text }] : [];
+      }
+      return (json.segments as TranscriptionSegment[]).map((s): TranscriptSegment => ({
+        speaker: 'Speaker 1',
+        start: s.start,
+        end: s.end,
+        text: s.text.trim(),
+      }));
+    },
+  };
+};
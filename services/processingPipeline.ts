@@ -0,0 +1,182 @@
+import { Agent, ProcessingProgress, ProcessingResult, TranscriptSegment, UserSettings } from "../types";
+import { generateReportFromTranscript, getSpeechProvider, processMeetingAudio } from "./aiService";
+import { openAudioSource, planChunks } from "./audioService";
+
+// Recordings up to this length are still sent in a single request
+export const LONG_RECORDING_SECONDS = 10 * 60;
+// 5 minutes of 16 kHz WAV is ~10 MB, well inside inline request limits
+const CHUNK_SECONDS = 5 * 60;
+const OVERLAP_SECONDS = 10;
+const MAX_ATTEMPTS = 3;
+// Shortest repeated run of words (or characters, for unspaced scripts) taken as the same speech
+const MIN_REPEAT_UNITS = 2;
+
+const withRetry = async <T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || signal?.aborted) throw error;
+      console.warn(`Attempt ${attempt} failed, retrying...`, error);
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+};
+
+const contextOf = (segments: TranscriptSegment[]) =>
+  segments.slice(-5).map(s => `${s.speaker}: ${s.text}`).join('\n');
+
+// Words, or characters for scripts written without spaces (Chinese, Japanese)
+const splitUnits = (text: string) => {
+  const trimmed = text.trim();
+  return /\s/.test(trimmed) ? { units: trimmed.split(/\s+/), separator: ' ' } : { units: Array.from(trimmed), separator: '' };
+};
+
+const normalizeUnit = (unit: string) => unit.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Joins the end of a turn cut off by one chunk with its continuation heard by the next.
+ * Both chunks heard the overlap, so the repeated words are looked for and kept once;
+ * without a match, the continuation's share of the overlap is estimated from the timings.
+ */
+const joinContinuation = (earlier: TranscriptSegment, later: TranscriptSegment): TranscriptSegment => {
+  const { units: before, separator } = splitUnits(earlier.text);
+  const { units: after } = splitUnits(later.text);
+
+  let repeated = 0;
+  for (let length = Math.min(before.length, after.length); length >= MIN_REPEAT_UNITS; length--) {
+    const tail = before.slice(-length).map(normalizeUnit).join(' ');
+    if (tail === after.slice(0, length).map(normalizeUnit).join(' ')) {
+      repeated = length;
+      break;
+    }
+  }
+  if (repeated === 0 && later.end > later.start) {
+    const heardTwice = Math.max(0, earlier.end - later.start) / (later.end - later.start);
+    repeated = Math.min(after.length, Math.round(after.length * heardTwice));
+  }
+
+  return {
+    ...earlier,
+    end: Math.max(earlier.end, later.end),
+    text: [...before, ...after.slice(repeated)].join(separator),
+  };
+};
+
+/**
+ * Adds a chunk's segments (already on the recording's timeline) to the transcript so far.
+ * Speech in the overlap with the previous chunk is kept once: segments the previous
+ * chunk covered are dropped, and a turn that crosses the boundary is joined up.
+ */
+const appendChunkSegments = (segments: TranscriptSegment[], chunkSegments: TranscriptSegment[], keepFrom: number): TranscriptSegment[] => {
+  const result = [...segments];
+  chunkSegments.forEach(segment => {
+    if (segment.start >= keepFrom) {
+      result.push(segment);
+      return;
+    }
+    if (segment.end <= keepFrom) return; // heard in full by the previous chunk
+
+    const last = result[result.length - 1];
+    if (last && last.speaker === segment.speaker && last.end > segment.start) {
+      result[result.length - 1] = joinContinuation(last, segment);
+    } else {
+      result.push({ ...segment, start: Math.max(segment.start, last?.end ?? segment.start) });
+    }
+  });
+  return result;
+};
+
+/**
+ * Transcribes a long recording in overlapping chunks (with retries) and stitches the
+ * pieces together. `onProgress` receives the state after every chunk; passing a previous
+ * state back in as `progress` resumes after the last finished chunk.
+ */
+const transcribeInChunks = async (
+  audioBlob: Blob,
+  agent: Agent,
+  targetLanguage: string,
+  settings: UserSettings,
+  progress: ProcessingProgress | undefined,
+  onProgress: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<ProcessingProgress> => {
+  const source = await openAudioSource(audioBlob);
+  const chunks = planChunks(source.duration, CHUNK_SECONDS, OVERLAP_SECONDS);
+
+  let state: ProcessingProgress = progress && progress.totalChunks === chunks.length
+    ? progress
+    : { stage: 'transcribing', completedChunks: 0, totalChunks: chunks.length, segments: [], agentId: agent.id, language: targetLanguage };
+  onProgress(state);
+
+  const speech = getSpeechProvider(settings, agent.provider);
+
+  for (const chunk of chunks.slice(state.completedChunks)) {
+    const audio = await source.readRange(chunk.start, chunk.end);
+    const chunkSegments = await withRetry(() =>
+      speech.transcribe!({ audio, targetLanguage, context: contextOf(state.segments), signal }),
+      signal
+    );
+
+    // Each overlap is split in the middle: the earlier chunk keeps what starts before it, the later one the rest
+    const next = chunks[chunk.index + 1];
+    const keepFrom = chunk.index === 0 ? 0 : chunk.start + OVERLAP_SECONDS / 2;
+    const keepUntil = next ? next.start + OVERLAP_SECONDS / 2 : Infinity;
+    const kept = chunkSegments
+      .map(s => ({ ...s, start: s.start + chunk.start, end: s.end + chunk.start }))
+      .filter(s => s.start < keepUntil);
+
+    state = { ...state, completedChunks: chunk.index + 1, segments: appendChunkSegments(state.segments, kept, keepFrom) };
+    onProgress(state);
+  }
+  return state;
+};
+
+/**
+ * Processes a recording. Long recordings are transcribed in chunks first and only
+ * then turned into a report; see transcribeInChunks for progress and resuming.
+ * Aborting `signal` also cancels the request in flight.
+ */
+export const processRecording = async (
+  audioBlob: Blob,
+  duration: number,
+  agent: Agent,
+  targetLanguage: string,
+  settings: UserSettings,
+  progress: ProcessingProgress | undefined,
+  onProgress: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<ProcessingResult> => {
+  if (!progress && duration <= LONG_RECORDING_SECONDS) {
+    signal?.throwIfAborted();
+    return processMeetingAudio(audioBlob, agent, targetLanguage, settings, signal);
+  }
+
+  let state = await transcribeInChunks(audioBlob, agent, targetLanguage, settings, progress, onProgress, signal);
+  state = { ...state, stage: 'reporting' };
+  onProgress(state);
+
+  return withRetry(() => generateReportFromTranscript(state.segments, agent, targetLanguage, settings, signal), signal);
+};
+
+/**
+ * Only transcribes a recording, for re-runs that keep the existing report.
+ * Progress and resuming work as in processRecording.
+ */
+export const transcribeRecording = async (
+  audioBlob: Blob,
+  duration: number,
+  agent: Agent,
+  targetLanguage: string,
+  settings: UserSettings,
+  progress: ProcessingProgress | undefined,
+  onProgress: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> => {
+  if (!progress && duration <= LONG_RECORDING_SECONDS) {
+    const speech = getSpeechProvider(settings, agent.provider);
+    return withRetry(() => speech.transcribe!({ audio: audioBlob, targetLanguage, signal }), signal);
+  }
+  return (await transcribeInChunks(audioBlob, agent, targetLanguage, settings, progress, onProgress, signal)).segments;
+};
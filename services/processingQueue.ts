@@ -0,0 +1,39 @@
+import { MeetingData, MeetingStatus, ProcessingJob, ReprocessOptions } from "../types";
+
+// Each job holds a decoded recording in memory while it runs, so keep this small
+export const MAX_CONCURRENT_JOBS = 2;
+
+export const createJob = (options: ReprocessOptions): ProcessingJob => ({
+  state: 'queued',
+  queuedAt: Date.now(),
+  agentId: options.agentId,
+  modelId: options.modelId,
+  language: options.language,
+  keepReport: options.keepReport,
+});
+
+export const isJobActive = (job?: ProcessingJob) => job?.state === 'queued' || job?.state === 'running';
+
+/**
+ * Queued meetings that may start now, oldest first, without exceeding the concurrency limit.
+ */
+export const getJobsToStart = (meetings: MeetingData[]): MeetingData[] => {
+  const running = meetings.filter(m => m.job?.state === 'running').length;
+  return meetings
+    .filter(m => m.job?.state === 'queued')
+    .sort((a, b) => a.job!.queuedAt - b.job!.queuedAt)
+    .slice(0, Math.max(0, MAX_CONCURRENT_JOBS - running));
+};
+
+/**
+ * Puts jobs that were running when the app closed back in the queue; they continue
+ * from their saved progress. Meetings stuck in processing without a job can't be resumed.
+ */
+export const restoreJobs = (meetings: MeetingData[]): MeetingData[] =>
+  meetings.map(m => {
+    if (m.job?.state === 'running') return { ...m, job: { ...m.job, state: 'queued' } };
+    if (m.status === MeetingStatus.PROCESSING && !m.job) {
+      return { ...m, status: MeetingStatus.ERROR, error: "Processing was interrupted because the app was closed." };
+    }
+    return m;
+  });
@@ -0,0 +1,150 @@
+import { MeetingData, MeetingStatus } from "../types";
+
+// Expected type of a field; a trailing '?' allows it to be missing
+type TypeRule = `${'string' | 'number' | 'boolean' | 'array' | 'object'}${'' | '?'}`;
+
+// A list whose items are records of their own
+interface ListRule {
+  items: RecordSchema;
+  optional: boolean;
+}
+
+type FieldRule = TypeRule | ListRule;
+
+export type RecordSchema = { [field: string]: FieldRule };
+
+const listOf = (items: RecordSchema, optional = false): ListRule => ({ items, optional });
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const AGENT_SCHEMA: RecordSchema = {
+  id: 'string',
+  name: 'string',
+  description: 'string',
+  icon: 'string',
+  systemInstruction: 'string',
+  provider: 'string',
+  modelId: 'string',
+  isDefault: 'boolean?',
+  reportTemplate: 'object?',
+};
+
+export const WEB_TOOL_SCHEMA: RecordSchema = {
+  id: 'string',
+  name: 'string',
+  url: 'string',
+  icon: 'string',
+};
+
+const SEGMENT_SCHEMA: RecordSchema = {
+  speaker: 'string',
+  start: 'number',
+  end: 'number',
+  text: 'string',
+};
+
+const ACTION_ITEM_SCHEMA: RecordSchema = {
+  id: 'string',
+  text: 'string',
+  owner: 'string',
+  dueDate: 'string',
+  status: 'string',
+};
+
+const REPORT_VERSION_SCHEMA: RecordSchema = {
+  id: 'string',
+  report: 'string',
+  createdAt: 'number',
+};
+
+const QUESTION_SCHEMA: RecordSchema = {
+  id: 'string',
+  question: 'string',
+  answer: 'string',
+  citations: 'array',
+  createdAt: 'number',
+};
+
+const MESSAGE_SCHEMA: RecordSchema = {
+  id: 'string',
+  role: 'string',
+  content: 'string',
+  timestamp: 'number',
+};
+
+export const MEETING_SCHEMA: RecordSchema = {
+  id: 'string',
+  title: 'string',
+  date: 'number',
+  duration: 'number',
+  status: 'string',
+  tags: 'array',
+  suggestedTags: 'array',
+  transcription: 'string?',
+  segments: listOf(SEGMENT_SCHEMA, true),
+  report: 'string?',
+  reportVersions: listOf(REPORT_VERSION_SCHEMA, true),
+  actionItems: listOf(ACTION_ITEM_SCHEMA, true),
+  fields: 'array?',
+  questions: listOf(QUESTION_SCHEMA, true),
+  language: 'string?',
+  progress: 'object?',
+  job: 'object?',
+  error: 'string?',
+};
+
+export const CHAT_SESSION_SCHEMA: RecordSchema = {
+  id: 'string',
+  agentId: 'string',
+  title: 'string',
+  messages: listOf(MESSAGE_SCHEMA),
+  updatedAt: 'number',
+  useVault: 'boolean?',
+};
+
+/**
+ * A stored meeting with missing tag lists read as empty. Tag edits used to save
+ * meetings without `suggestedTags`, and such meetings are still around in vaults,
+ * backups and sync remotes.
+ */
+export const fillMeetingLists = (record: unknown): unknown =>
+  isObject(record) ? { ...record, tags: record.tags ?? [], suggestedTags: record.suggestedTags ?? [] } : record;
+
+// JSON with sorted keys, so records compare equal whatever order their fields were written in
+export const canonicalJson = (value: unknown): string => JSON.stringify(value, (_, v) =>
+  isObject(v) ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]])) : v
+);
+
+// Runtime state that isn't part of a meeting's content
+export const meetingContent = ({ audioBlob, audioUrl, progress, job, ...rest }: MeetingData) => rest;
+
+const MEETING_STATUSES = Object.values(MeetingStatus) as string[];
+
+const hasType = (value: unknown, type: string) =>
+  type === 'array' ? Array.isArray(value) : type === 'object' ? isObject(value) : typeof value === type;
+
+/**
+ * Describes the first way a record doesn't fit its schema, or returns null if it does.
+ * Only the shape is checked, not what the values mean; list items are checked too.
+ */
+export const findProblem = (record: unknown, schema: RecordSchema): string | null => {
+  if (!isObject(record)) return "not an object";
+  for (const [field, rule] of Object.entries(schema)) {
+    const optional = typeof rule === 'string' ? rule.endsWith('?') : rule.optional;
+    const type = typeof rule !== 'string' ? 'array' : optional ? rule.slice(0, -1) : rule;
+    const value = record[field];
+    if (value === undefined || value === null) {
+      if (!optional) return `${field} is missing`;
+    } else if (!hasType(value, type)) {
+      return `${field} is not a${type === 'array' || type === 'object' ? 'n' : ''} ${type}`;
+    } else if (typeof rule !== 'string') {
+      for (const [i, item] of (value as unknown[]).entries()) {
+        const problem = findProblem(item, rule.items);
+        if (problem) return `${field}[${i}]: ${problem}`;
+      }
+    }
+  }
+  if (schema === MEETING_SCHEMA && !MEETING_STATUSES.includes(record.status as string)) return `unknown status ${record.status}`;
+  return null;
+};
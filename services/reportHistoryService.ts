@@ -0,0 +1,115 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MeetingData, ReportVersion, ReportVersionSource } from "../types";
+
+// Checkbox ticks and small manual edits in quick succession are kept as one version
+const MERGE_WINDOW_MS = 60 * 1000;
+// Beyond this many line pairs the diff falls back to replacing the changed block as a whole
+const MAX_DIFF_CELLS = 4_000_000;
+
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: { line: number; text: string };  // older version
+  right?: { line: number; text: string }; // newer version
+}
+
+/**
+ * The meeting's report history. Meetings from before history existed get their
+ * current report as the first version, with an id that stays the same across calls.
+ */
+export const getReportVersions = (meeting: MeetingData): ReportVersion[] => {
+  if (meeting.reportVersions?.length) return meeting.reportVersions;
+  return meeting.report ? [{ id: `${meeting.id}:legacy`, report: meeting.report, source: 'generated', createdAt: meeting.date }] : [];
+};
+
+/**
+ * The updates that set a new report and record it in the meeting's history.
+ */
+export const withReportVersion = (
+  meeting: MeetingData,
+  report: string,
+  source: ReportVersionSource,
+  detail?: string
+): Pick<MeetingData, 'report' | 'reportVersions'> => {
+  const versions = getReportVersions(meeting);
+
+  if (versions.length > 0 && versions[versions.length - 1].report === report) {
+    return { report, reportVersions: versions };
+  }
+
+  const now = Date.now();
+  const last = versions[versions.length - 1];
+  if (source === 'manual' && last?.source === 'manual' && now - last.createdAt < MERGE_WINDOW_MS) {
+    return { report, reportVersions: [...versions.slice(0, -1), { ...last, report, createdAt: now }] };
+  }
+
+  return { report, reportVersions: [...versions, { id: uuidv4(), report, source, detail, createdAt: now }] };
+};
+
+/**
+ * Line-based diff (longest common subsequence) laid out as side-by-side rows.
+ * Removed lines directly followed by added ones are paired up as changed rows.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common head and tail don't need the quadratic part
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+  const midA = a.slice(head, a.length - tail);
+  const midB = b.slice(head, b.length - tail);
+  const ops: ('same' | 'removed' | 'added')[] = [];
+
+  if (midA.length * midB.length <= MAX_DIFF_CELLS) {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0, j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) { ops.push('same'); i++; j++; }
+      else if (j < midB.length && (i === midA.length || lcs[i][j + 1] >= lcs[i + 1][j])) { ops.push('added'); j++; }
+      else { ops.push('removed'); i++; }
+    }
+  } else {
+    midA.forEach(() => ops.push('removed'));
+    midB.forEach(() => ops.push('added'));
+  }
+
+  const rows: DiffRow[] = [];
+  for (let k = 0; k < head; k++) rows.push({ type: 'same', left: { line: k + 1, text: a[k] }, right: { line: k + 1, text: b[k] } });
+
+  let ia = head, ib = head;
+  for (let k = 0; k < ops.length;) {
+    if (ops[k] === 'same') {
+      rows.push({ type: 'same', left: { line: ia + 1, text: a[ia] }, right: { line: ib + 1, text: b[ib] } });
+      ia++; ib++; k++;
+      continue;
+    }
+    const removed: DiffRow['left'][] = [];
+    const added: DiffRow['right'][] = [];
+    while (k < ops.length && ops[k] !== 'same') {
+      if (ops[k] === 'removed') { removed.push({ line: ia + 1, text: a[ia] }); ia++; }
+      else { added.push({ line: ib + 1, text: b[ib] }); ib++; }
+      k++;
+    }
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const left = removed[n];
+      const right = added[n];
+      rows.push({ type: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+    }
+  }
+
+  for (let k = 0; k < tail; k++) {
+    rows.push({ type: 'same', left: { line: ia + k + 1, text: a[ia + k] }, right: { line: ib + k + 1, text: b[ib + k] } });
+  }
+  return rows;
+};
@@ -0,0 +1,81 @@
+import { MeetingField, ReportTemplate, TemplateField, TemplateFieldType, TemplateFieldValue } from "../types";
+
+export const TEMPLATE_FIELD_TYPES: { id: TemplateFieldType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'list', label: 'List' },
+  { id: 'number', label: 'Number' },
+  { id: 'date', label: 'Date' },
+  { id: 'boolean', label: 'Yes / No' },
+  { id: 'choice', label: 'Choice' },
+];
+
+// Property names every provider accepts in a schema (Anthropic is the strictest)
+const FIELD_KEY_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/;
+// Leaves room for a numeric suffix within the 64 characters
+const MAX_KEY_BASE_LENGTH = 56;
+
+/**
+ * A property name for a new field ("Customer sentiment" → "customer_sentiment"), unique within the template.
+ * Labels without any ASCII letters or digits get a numbered key such as "field_3".
+ */
+export const createFieldKey = (label: string, taken: string[]) => {
+  const base = label.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, MAX_KEY_BASE_LENGTH).replace(/_+$/, '');
+  if (!base) {
+    let n = taken.length + 1;
+    while (taken.includes(`field_${n}`)) n++;
+    return `field_${n}`;
+  }
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+};
+
+/**
+ * Drops empty sections and unnamed fields, and gives new fields their key.
+ * Returns undefined when nothing is left, so agents without a template stay without one.
+ */
+export const cleanTemplate = (template?: ReportTemplate): ReportTemplate | undefined => {
+  if (!template) return undefined;
+  const sections = template.sections.map(s => s.trim()).filter(Boolean);
+  const fields: TemplateField[] = [];
+  template.fields.forEach(field => {
+    const label = field.label.trim();
+    if (!label) return;
+    fields.push({
+      ...field,
+      label,
+      // Keys made by older versions may hold characters some providers reject
+      key: FIELD_KEY_PATTERN.test(field.key) ? field.key : createFieldKey(label, fields.map(f => f.key)),
+      description: field.description?.trim() || undefined,
+      options: field.type === 'choice' ? field.options?.map(o => o.trim()).filter(Boolean) : undefined,
+    });
+  });
+  return sections.length || fields.length ? { sections, fields } : undefined;
+};
+
+// Models don't always keep to the schema, so values are coerced to the field's type
+const normalizeValue = (field: TemplateField, value: unknown): TemplateFieldValue => {
+  switch (field.type) {
+    case 'list':
+      return Array.isArray(value) ? value.map(String).filter(v => v.trim()) : typeof value === 'string' && value.trim() ? [value] : [];
+    case 'number': {
+      const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+      return Number.isFinite(n) ? n : '';
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : value === 'true' ? true : value === 'false' ? false : '';
+    default:
+      return value === undefined || value === null ? '' : String(value).trim();
+  }
+};
+
+/**
+ * Pairs the template's fields with the values the model returned.
+ */
+export const toMeetingFields = (template: ReportTemplate | undefined, values?: Record<string, unknown>): MeetingField[] | undefined => {
+  if (!template?.fields.length) return undefined;
+  return template.fields.map(field => ({ ...field, value: normalizeValue(field, values?.[field.key]) }));
+};
+
+export const isEmptyFieldValue = (value: TemplateFieldValue) =>
+  value === '' || (Array.isArray(value) && value.length === 0);
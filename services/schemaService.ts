@@ -0,0 +1,181 @@
+import { Agent, ChatSession, DEFAULT_AGENTS, DEFAULT_WEB_TOOLS, MeetingData, UserSettings, WebTool } from "../types";
+import { SESSIONS_KEY, migrateLegacyChats, saveChatSessions } from "./chatSessionService";
+import { EMPTY_API_KEYS } from "./keyEncryptionService";
+import { AGENT_SCHEMA, CHAT_SESSION_SCHEMA, MEETING_SCHEMA, RecordSchema, WEB_TOOL_SCHEMA, canonicalJson, fillMeetingLists, findProblem, isObject } from "./recordSchema";
+import {
+  QuarantinedKind, QuarantinedRecord, attachAudio, deleteQuarantined, loadMeetingRecords, loadQuarantine, quarantineRecords, saveMeetings
+} from "./storageService";
+import { crc32 } from "./zip";
+
+// Version of the shape of locally stored data (settings, sessions, meetings).
+// Bump it together with a new entry in MIGRATIONS.
+export const SCHEMA_VERSION = 3;
+const SCHEMA_VERSION_KEY = 'nexus_schema_version';
+export const SETTINGS_KEY = 'nexus_settings';
+
+export class SchemaVersionError extends Error {
+  constructor(version: string) {
+    super(`The stored data has schema version ${version}, which this version of the app can't read.`);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// Stored data before it is checked
+interface RawData {
+  settings: unknown;
+  chatSessions: unknown;
+  meetings: unknown[];
+}
+
+/**
+ * Upgrades stored data from the version it is keyed by to the next one.
+ * Records may be malformed at this point; leave anything unexpected to validation.
+ */
+const MIGRATIONS: Record<number, (data: RawData) => RawData> = {
+  // Version 1 is everything written before the schema was versioned. Settings could
+  // predate web tools, or miss providers added to the key list later.
+  1: data => ({
+    ...data,
+    settings: isObject(data.settings) ? {
+      ...data.settings,
+      webTools: data.settings.webTools ?? DEFAULT_WEB_TOOLS,
+      apiKeys: isObject(data.settings.apiKeys) ? { ...EMPTY_API_KEYS, ...data.settings.apiKeys } : data.settings.apiKeys,
+    } : data.settings,
+  }),
+  // Tag edits saved meetings without `suggestedTags`
+  2: data => ({ ...data, meetings: data.meetings.map(fillMeetingLists) }),
+};
+
+/**
+ * Meetings that version 2 quarantined only for a missing tag list, to be loaded again.
+ */
+const quarantinedForTagLists = async (version: number, stored: unknown[]): Promise<QuarantinedRecord[]> => {
+  if (version >= 3) return [];
+  const storedIds = new Set(stored.map(m => isObject(m) ? m.id : undefined));
+  return (await loadQuarantine()).filter(q =>
+    q.kind === 'meeting' && isObject(q.record) && !storedIds.has(q.record.id) &&
+    !findProblem(fillMeetingLists(q.record), MEETING_SCHEMA)
+  );
+};
+
+export interface LocalData {
+  settings: UserSettings | null; // null when nothing usable is stored
+  chatSessions: ChatSession[];
+  meetings: MeetingData[];
+  quarantined: QuarantinedRecord[]; // all records awaiting recovery, not only new ones
+}
+
+// Keyed by content, so loading the same broken record again (a second mount, a reload) doesn't add a copy
+const quarantine = (kind: QuarantinedKind, record: unknown, reason: string): QuarantinedRecord => ({
+  id: `${kind}:${crc32(new TextEncoder().encode(canonicalJson(record))).toString(16)}`,
+  kind,
+  reason,
+  record,
+  quarantinedAt: Date.now(),
+});
+
+const readStoredJson = (key: string, kind: QuarantinedKind, quarantined: QuarantinedRecord[]): unknown => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    quarantined.push(quarantine(kind, saved, "not valid JSON"));
+    return undefined;
+  }
+};
+
+// Keeps the records that fit the schema; the rest go to quarantine
+const validRecords = <T>(records: unknown, kind: QuarantinedKind, schema: RecordSchema, quarantined: QuarantinedRecord[]): T[] => {
+  if (records === undefined) return [];
+  if (!Array.isArray(records)) {
+    quarantined.push(quarantine(kind, records, "expected a list"));
+    return [];
+  }
+  return records.filter(record => {
+    const problem = findProblem(record, schema);
+    if (problem) quarantined.push(quarantine(kind, record, problem));
+    return !problem;
+  });
+};
+
+const validateSettings = (raw: unknown, quarantined: QuarantinedRecord[]): UserSettings | null => {
+  if (raw === undefined) return null;
+  if (!isObject(raw)) {
+    quarantined.push(quarantine('settings', raw, "not an object"));
+    return null;
+  }
+
+  const agents = validRecords<Agent>(raw.agents, 'agent', AGENT_SCHEMA, quarantined);
+  const usableAgents = agents.length > 0 ? agents : DEFAULT_AGENTS;
+  return {
+    ...raw,
+    googleDriveConnected: raw.googleDriveConnected === true,
+    apiKeys: isObject(raw.apiKeys) ? { ...EMPTY_API_KEYS, ...raw.apiKeys } : EMPTY_API_KEYS,
+    agents: usableAgents,
+    webTools: validRecords<WebTool>(raw.webTools, 'webTool', WEB_TOOL_SCHEMA, quarantined),
+    activeAgentId: usableAgents.some(a => a.id === raw.activeAgentId) ? raw.activeAgentId : usableAgents[0].id,
+  } as UserSettings;
+};
+
+/**
+ * Loads all locally stored data: migrates it to the current schema, then checks every
+ * record. Records that don't fit are quarantined for recovery instead of breaking the app.
+ * Throws only if the data can't be read at all (e.g. it was written by a newer version).
+ */
+export const loadLocalData = async (): Promise<LocalData> => {
+  const storedVersion = localStorage.getItem(SCHEMA_VERSION_KEY) || '1';
+  const version = Number(storedVersion);
+  if (!Number.isInteger(version) || version < 1 || version > SCHEMA_VERSION) throw new SchemaVersionError(storedVersion);
+
+  migrateLegacyChats();
+  const quarantined: QuarantinedRecord[] = [];
+  const storedMeetings = await loadMeetingRecords();
+  const restored = await quarantinedForTagLists(version, storedMeetings);
+  let data: RawData = {
+    settings: readStoredJson(SETTINGS_KEY, 'settings', quarantined),
+    chatSessions: readStoredJson(SESSIONS_KEY, 'chatSession', quarantined),
+    meetings: [...storedMeetings, ...restored.map(q => q.record)],
+  };
+  for (let v = version; v < SCHEMA_VERSION; v++) {
+    data = MIGRATIONS[v](data);
+  }
+
+  const settings = validateSettings(data.settings, quarantined);
+  const chatSessions = validRecords<ChatSession>(data.chatSessions, 'chatSession', CHAT_SESSION_SCHEMA, quarantined);
+  const meetings = validRecords<MeetingData>(data.meetings, 'meeting', MEETING_SCHEMA, quarantined);
+
+  if (quarantined.length > 0) await quarantineRecords(quarantined);
+  if (version < SCHEMA_VERSION) {
+    // The upgraded data is written back before the new version is recorded
+    await saveMeetings(meetings);
+    if (settings) localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    saveChatSessions(chatSessions);
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+  }
+  // Only once they are back in the meeting store
+  if (restored.length > 0) await deleteQuarantined(restored.map(q => q.id));
+
+  return { settings, chatSessions, meetings: await attachAudio(meetings), quarantined: await loadQuarantine() };
+};
+
+/**
+ * Everything stored, as it is stored: the app's localStorage entries, the meeting
+ * records and the quarantine. For recovering data by hand; recordings aren't included.
+ */
+export const exportRawData = async (): Promise<Blob> => {
+  const local: Record<string, string | null> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key?.startsWith('nexus_')) local[key] = localStorage.getItem(key);
+  }
+  // The database may be what's broken; export what can be read
+  const unreadable = (err: unknown) => ({ error: String(err) });
+  const [meetings, quarantined] = await Promise.all([
+    loadMeetingRecords().catch(unreadable),
+    loadQuarantine().catch(unreadable),
+  ]);
+
+  const raw = { exportedAt: new Date().toISOString(), schemaVersion: SCHEMA_VERSION, localStorage: local, meetings, quarantined };
+  return new Blob([JSON.stringify(raw, null, 2)], { type: 'application/json' });
+};
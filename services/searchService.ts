@@ -0,0 +1,189 @@
+import { MeetingData, MeetingStatus } from "../types";
+
+export type SearchField = 'title' | 'report' | 'transcription' | 'tags';
+
+export interface SearchFilters {
+  tags: string[];        // meeting must have all of them
+  from: string;          // YYYY-MM-DD, inclusive; empty for no bound
+  to: string;            // YYYY-MM-DD, inclusive
+  language: string;      // empty for any
+  status: MeetingStatus | '';
+}
+
+export const EMPTY_FILTERS: SearchFilters = { tags: [], from: '', to: '', language: '', status: '' };
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+}
+
+export interface SearchResult {
+  meeting: MeetingData;
+  snippet?: SearchSnippet;
+}
+
+export interface SearchIndex {
+  tokens: Map<string, Set<string>>;
+  words: string[]; // non-CJK tokens, sorted, for prefix lookups
+  fields: Map<string, Record<SearchField, string>>; // lowercased text per meeting
+}
+
+const SNIPPET_RADIUS = 60;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// CJK text has no spaces, so it is indexed as overlapping character pairs
+const bigrams = (word: string) => {
+  const chars = Array.from(word);
+  if (chars.length < 2) return chars;
+  const pairs: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) pairs.push(chars[i] + chars[i + 1]);
+  return pairs;
+};
+
+const tokenize = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.flatMap(word => CJK.test(word) ? bigrams(word) : [word]);
+};
+
+// Single characters too, so one-character CJK queries can match
+const indexTokens = (text: string): string[] => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return words.flatMap(word => CJK.test(word) ? [...Array.from(word), ...bigrams(word)] : [word]);
+};
+
+// First position in the sorted list not before `prefix`
+const lowerBound = (sorted: string[], prefix: string) => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+export const getQueryTerms = (query: string) =>
+  query.toLowerCase().split(/\s+/).map(t => t.trim()).filter(Boolean);
+
+export const buildSearchIndex = (meetings: MeetingData[]): SearchIndex => {
+  const tokens = new Map<string, Set<string>>();
+  const fields = new Map<string, Record<SearchField, string>>();
+
+  meetings.forEach(m => {
+    const doc: Record<SearchField, string> = {
+      title: m.title || '',
+      report: m.report || '',
+      transcription: m.transcription || '',
+      tags: m.tags.join(' '),
+    };
+    fields.set(m.id, {
+      title: doc.title.toLowerCase(),
+      report: doc.report.toLowerCase(),
+      transcription: doc.transcription.toLowerCase(),
+      tags: doc.tags.toLowerCase(),
+    });
+
+    Object.values(doc).forEach(text => {
+      indexTokens(text).forEach(token => {
+        if (!tokens.has(token)) tokens.set(token, new Set());
+        tokens.get(token)!.add(m.id);
+      });
+    });
+  });
+
+  const words = Array.from(tokens.keys()).filter(token => !CJK.test(token)).sort();
+  return { tokens, words, fields };
+};
+
+/**
+ * Meetings that may contain the term, looked up in the index (prefix match for words).
+ */
+const candidatesFor = (index: SearchIndex, term: string): Set<string> => {
+  const termTokens = tokenize(term);
+  if (termTokens.length === 0) return new Set();
+
+  const sets = termTokens.map(token => {
+    if (CJK.test(token)) return index.tokens.get(token) || new Set<string>();
+    // Words starting with the token sit next to each other in the sorted list
+    const ids = new Set<string>();
+    for (let i = lowerBound(index.words, token); i < index.words.length && index.words[i].startsWith(token); i++) {
+      index.tokens.get(index.words[i])!.forEach(id => ids.add(id));
+    }
+    return ids;
+  });
+
+  return sets.reduce((acc, set) => new Set([...acc].filter(id => set.has(id))));
+};
+
+/**
+ * Finds the first field containing a query term and cuts a snippet around it.
+ */
+export const findSnippet = (meeting: MeetingData, terms: string[]): SearchSnippet | undefined => {
+  const order: SearchField[] = ['title', 'report', 'transcription', 'tags'];
+  for (const field of order) {
+    const text = field === 'tags' ? meeting.tags.join(', ') : (meeting[field] || '');
+    const lower = text.toLowerCase();
+    const positions = terms.map(t => lower.indexOf(t)).filter(p => p !== -1);
+    if (positions.length === 0) continue;
+
+    const pos = Math.min(...positions);
+    const start = Math.max(0, pos - SNIPPET_RADIUS);
+    const end = Math.min(text.length, pos + SNIPPET_RADIUS * 2);
+    return {
+      field,
+      text: `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`,
+    };
+  }
+  return undefined;
+};
+
+const matchesFilters = (m: MeetingData, filters: SearchFilters) => {
+  if (filters.tags.some(t => !m.tags.includes(t))) return false;
+  if (filters.language && m.language !== filters.language) return false;
+  if (filters.status && m.status !== filters.status) return false;
+  // Compare in local time, as shown in the list
+  const day = new Date(m.date - new Date(m.date).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  return true;
+};
+
+/**
+ * Searches title, report, transcription and tags. Every query term must match;
+ * results keep the vault's date order, with title matches first.
+ */
+export const searchMeetings = (
+  index: SearchIndex,
+  meetings: MeetingData[],
+  query: string,
+  filters: SearchFilters
+): SearchResult[] => {
+  const terms = getQueryTerms(query);
+  const filtered = meetings.filter(m => matchesFilters(m, filters));
+  if (terms.length === 0) return filtered.map(meeting => ({ meeting }));
+
+  const candidateSets = terms.map(term => candidatesFor(index, term));
+  const results = filtered
+    .filter(m => candidateSets.every(set => set.has(m.id)))
+    // The index may over-match (prefixes, bigrams), so confirm on the actual text
+    .filter(m => {
+      const doc = index.fields.get(m.id);
+      return !!doc && terms.every(t => Object.values(doc).some(text => text.includes(t)));
+    })
+    .map(meeting => ({ meeting, snippet: findSnippet(meeting, terms) }));
+
+  return [
+    ...results.filter(r => r.snippet?.field === 'title'),
+    ...results.filter(r => r.snippet?.field !== 'title'),
+  ];
+};
+
+/**
+ * Tag counts for the facet list, over meetings matching everything but the tag filter.
+ */
+export const getTagFacets = (results: SearchResult[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  results.forEach(r => r.meeting.tags.forEach(t => counts.set(t, (counts.get(t) || 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,398 @@
+import { MeetingData } from "../types";
+
+const DB_NAME = 'nexus';
+const DB_VERSION = 6;
+const MEETINGS_STORE = 'meetings';
+const AUDIO_STORE = 'audio';
+// Recordings in progress, written chunk by chunk so a crash doesn't lose them
+const RECORDINGS_STORE = 'recordings';
+const RECORDING_CHUNKS_STORE = 'recording_chunks';
+// Vault index: embedded chunks of meeting transcripts and reports
+const EMBEDDINGS_STORE = 'embeddings';
+// Content signature of each indexed meeting, so checking for changes doesn't load the vectors
+const EMBEDDING_SIGNATURES_STORE = 'embedding_signatures';
+// Stored records that failed validation, kept for recovery instead of being dropped
+const QUARANTINE_STORE = 'quarantine';
+// Sync bookkeeping: change tracking state and the chosen local folder
+const SYNC_STORE = 'sync';
+
+// Key used by older versions of the app, which kept meeting metadata in localStorage
+const LEGACY_MEETINGS_KEY = 'nexus_meetings';
+
+type StoredMeeting = Omit<MeetingData, 'audioBlob' | 'audioUrl'>;
+
+interface StoredAudio {
+  id: string;
+  blob: Blob;
+}
+
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  mimeType: string;
+  duration: number; // seconds recorded so far, pauses excluded
+  heartbeatAt?: number; // refreshed while the recording tab is alive
+}
+
+// Sessions whose tab sent a heartbeat more recently than this are still being recorded
+export const RECORDING_HEARTBEAT_MS = 5000;
+const RECORDING_STALE_MS = RECORDING_HEARTBEAT_MS * 4;
+
+interface StoredRecordingChunk {
+  sessionId: string;
+  index: number;
+  blob: Blob;
+}
+
+export interface InterruptedRecording {
+  session: RecordingSession;
+  blob: Blob;
+}
+
+export interface EmbeddedChunk {
+  id: string;        // `${meetingId}:${field}:${index}`
+  meetingId: string;
+  field: 'report' | 'transcript';
+  start?: number;    // seconds, for transcript chunks with timestamps
+  text: string;
+  vector: Float32Array;
+  embedderId: string;
+  signature: string; // content hash of the meeting when it was embedded
+}
+
+// What sync knows about one record (`${kind}:${id}`)
+export interface SyncRecordState {
+  hash: string;        // of the local content, '' once deleted
+  modifiedAt: number;  // when the local content last changed
+  deleted?: boolean;
+  syncedHash?: string; // content both sides had after the last sync, unset if never synced
+}
+
+export interface SyncState {
+  target: string;      // the remote the syncedHash values refer to
+  records: Record<string, SyncRecordState>;
+  lastSyncAt?: number;
+}
+
+export type QuarantinedKind = 'settings' | 'agent' | 'webTool' | 'meeting' | 'chatSession';
+
+export interface QuarantinedRecord {
+  id: string;
+  kind: QuarantinedKind;
+  reason: string;
+  record: unknown; // as it was stored (the raw text if it wasn't valid JSON)
+  quarantinedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEETINGS_STORE)) {
+          db.createObjectStore(MEETINGS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(RECORDING_CHUNKS_STORE)) {
+          db.createObjectStore(RECORDING_CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+        }
+        if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+          db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'id' }).createIndex('meetingId', 'meetingId');
+        }
+        if (!db.objectStoreNames.contains(EMBEDDING_SIGNATURES_STORE)) {
+          const signatures = db.createObjectStore(EMBEDDING_SIGNATURES_STORE);
+          // Fill in from chunks embedded before signatures had their own store
+          const cursorRequest = request.transaction!.objectStore(EMBEDDINGS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const chunk = cursor.value as EmbeddedChunk;
+            signatures.put(chunk.signature, chunk.meetingId);
+            cursor.continue();
+          };
+        }
+        if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+          db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SYNC_STORE)) {
+          db.createObjectStore(SYNC_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toStored = ({ audioBlob, audioUrl, ...rest }: MeetingData): StoredMeeting => rest;
+
+/**
+ * Moves meetings saved by older versions (localStorage) into IndexedDB.
+ * Their audio was never persisted, so only metadata is carried over.
+ */
+const migrateLegacyMeetings = async (db: IDBDatabase) => {
+  const legacy = localStorage.getItem(LEGACY_MEETINGS_KEY);
+  if (!legacy) return;
+
+  try {
+    const parsed: StoredMeeting[] = JSON.parse(legacy);
+    const tx = db.transaction(MEETINGS_STORE, 'readwrite');
+    const store = tx.objectStore(MEETINGS_STORE);
+    parsed.forEach(m => store.put(m));
+    await transactionDone(tx);
+    localStorage.removeItem(LEGACY_MEETINGS_KEY);
+  } catch (error) {
+    console.error("Legacy meeting migration failed:", error);
+  }
+};
+
+/**
+ * Loads the stored meeting records as they are; schemaService checks them.
+ */
+export const loadMeetingRecords = async (): Promise<unknown[]> => {
+  const db = await openDb();
+  await migrateLegacyMeetings(db);
+  const tx = db.transaction(MEETINGS_STORE, 'readonly');
+  return requestToPromise<unknown[]>(tx.objectStore(MEETINGS_STORE).getAll());
+};
+
+/**
+ * Re-attaches stored audio to meetings, recreating object URLs.
+ */
+export const attachAudio = async (meetings: StoredMeeting[]): Promise<MeetingData[]> => {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readonly');
+  const audio = await requestToPromise<StoredAudio[]>(tx.objectStore(AUDIO_STORE).getAll());
+
+  const audioById = new Map(audio.map(a => [a.id, a.blob]));
+
+  return meetings
+    .map(m => {
+      const blob = audioById.get(m.id);
+      return blob ? { ...m, audioBlob: blob, audioUrl: URL.createObjectURL(blob) } : m;
+    })
+    .sort((a, b) => b.date - a.date);
+};
+
+/**
+ * Writes the full meeting list. Records (and audio) of meetings that are no
+ * longer in the list are removed, so deletes and imports stay in sync.
+ */
+export const saveMeetings = async (meetings: MeetingData[]) => {
+  const db = await openDb();
+  const tx = db.transaction([MEETINGS_STORE, AUDIO_STORE], 'readwrite');
+  const meetingStore = tx.objectStore(MEETINGS_STORE);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+
+  const ids = new Set(meetings.map(m => m.id));
+  const existingKeys = await requestToPromise(meetingStore.getAllKeys());
+  existingKeys.forEach(key => {
+    if (!ids.has(key as string)) {
+      meetingStore.delete(key);
+      audioStore.delete(key);
+    }
+  });
+  meetings.forEach(m => meetingStore.put(toStored(m)));
+
+  await transactionDone(tx);
+};
+
+export const saveAudio = async (meetingId: string, blob: Blob) => {
+  const db = await openDb();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  tx.objectStore(AUDIO_STORE).put({ id: meetingId, blob } as StoredAudio);
+  await transactionDone(tx);
+};
+
+const sessionChunksRange = (sessionId: string) =>
+  IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+
+// Also used for heartbeats
+export const saveRecordingSession = async (session: RecordingSession) => {
+  const db = await openDb();
+  const tx = db.transaction(RECORDINGS_STORE, 'readwrite');
+  tx.objectStore(RECORDINGS_STORE).put(session);
+  await transactionDone(tx);
+};
+
+/**
+ * Stores the next chunk of a recording together with the duration reached so far.
+ */
+export const appendRecordingChunk = async (session: RecordingSession, index: number, blob: Blob) => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS_STORE, RECORDING_CHUNKS_STORE], 'readwrite');
+  tx.objectStore(RECORDING_CHUNKS_STORE).put({ sessionId: session.id, index, blob } as StoredRecordingChunk);
+  tx.objectStore(RECORDINGS_STORE).put(session);
+  await transactionDone(tx);
+};
+
+export const deleteRecordingSession = async (sessionId: string) => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS_STORE, RECORDING_CHUNKS_STORE], 'readwrite');
+  tx.objectStore(RECORDINGS_STORE).delete(sessionId);
+  tx.objectStore(RECORDING_CHUNKS_STORE).delete(sessionChunksRange(sessionId));
+  await transactionDone(tx);
+};
+
+/**
+ * Recordings that were never finished (tab closed, crash), reassembled from their chunks.
+ * Sessions still alive in another tab are left alone; those that never received any audio are dropped.
+ */
+export const loadInterruptedRecordings = async (): Promise<InterruptedRecording[]> => {
+  const db = await openDb();
+  const tx = db.transaction([RECORDINGS_STORE, RECORDING_CHUNKS_STORE], 'readonly');
+  const stored = await requestToPromise<RecordingSession[]>(tx.objectStore(RECORDINGS_STORE).getAll());
+  const sessions = stored.filter(s => !s.heartbeatAt || Date.now() - s.heartbeatAt > RECORDING_STALE_MS);
+
+  const recordings = await Promise.all(sessions.map(async session => {
+    const chunks = await requestToPromise<StoredRecordingChunk[]>(
+      tx.objectStore(RECORDING_CHUNKS_STORE).getAll(sessionChunksRange(session.id))
+    );
+    return { session, blob: new Blob(chunks.map(c => c.blob), { type: session.mimeType }) };
+  }));
+
+  const empty = recordings.filter(r => r.blob.size === 0);
+  await Promise.all(empty.map(r => deleteRecordingSession(r.session.id)));
+  return recordings.filter(r => r.blob.size > 0).sort((a, b) => b.session.startedAt - a.session.startedAt);
+};
+
+export const loadEmbeddedChunks = async (): Promise<EmbeddedChunk[]> => {
+  const db = await openDb();
+  const tx = db.transaction(EMBEDDINGS_STORE, 'readonly');
+  return requestToPromise<EmbeddedChunk[]>(tx.objectStore(EMBEDDINGS_STORE).getAll());
+};
+
+/**
+ * Signature of every indexed meeting, by meeting id.
+ */
+export const loadEmbeddingSignatures = async (): Promise<Map<string, string>> => {
+  const db = await openDb();
+  const tx = db.transaction(EMBEDDING_SIGNATURES_STORE, 'readonly');
+  const store = tx.objectStore(EMBEDDING_SIGNATURES_STORE);
+  const [ids, signatures] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<string[]>(store.getAll()),
+  ]);
+  return new Map(ids.map((id, i) => [String(id), signatures[i]]));
+};
+
+/**
+ * Replaces the indexed chunks of the given meetings (none to just remove them),
+ * along with their signatures.
+ */
+export const replaceEmbeddedChunks = async (meetingIds: string[], chunks: EmbeddedChunk[]) => {
+  const db = await openDb();
+  const tx = db.transaction([EMBEDDINGS_STORE, EMBEDDING_SIGNATURES_STORE], 'readwrite');
+  const store = tx.objectStore(EMBEDDINGS_STORE);
+  const signatureStore = tx.objectStore(EMBEDDING_SIGNATURES_STORE);
+  const keys = await Promise.all(meetingIds.map(id => requestToPromise(store.index('meetingId').getAllKeys(id))));
+  keys.flat().forEach(key => store.delete(key));
+  meetingIds.forEach(id => signatureStore.delete(id));
+  chunks.forEach(chunk => {
+    store.put(chunk);
+    signatureStore.put(chunk.signature, chunk.meetingId);
+  });
+  await transactionDone(tx);
+};
+
+/**
+ * Moves records that failed validation into quarantine. Quarantined meetings leave the
+ * meeting store (their audio stays), so saving the meeting list doesn't delete them.
+ */
+export const quarantineRecords = async (records: QuarantinedRecord[]) => {
+  const db = await openDb();
+  const tx = db.transaction([MEETINGS_STORE, QUARANTINE_STORE], 'readwrite');
+  const meetingStore = tx.objectStore(MEETINGS_STORE);
+  const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+  records.forEach(r => {
+    quarantineStore.put(r);
+    const id = (r.record as { id?: unknown } | null)?.id;
+    if (r.kind === 'meeting' && typeof id === 'string') meetingStore.delete(id);
+  });
+  await transactionDone(tx);
+};
+
+export const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  const records = await requestToPromise<QuarantinedRecord[]>(tx.objectStore(QUARANTINE_STORE).getAll());
+  return records.sort((a, b) => a.quarantinedAt - b.quarantinedAt);
+};
+
+export const deleteQuarantined = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  const store = tx.objectStore(QUARANTINE_STORE);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const clearQuarantine = async () => {
+  const db = await openDb();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  tx.objectStore(QUARANTINE_STORE).clear();
+  await transactionDone(tx);
+};
+
+const loadSyncValue = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STORE, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(SYNC_STORE).get(key));
+};
+
+const saveSyncValue = async (key: string, value: unknown) => {
+  const db = await openDb();
+  const tx = db.transaction(SYNC_STORE, 'readwrite');
+  tx.objectStore(SYNC_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+export const loadSyncState = () => loadSyncValue<SyncState>('state');
+export const saveSyncState = (state: SyncState) => saveSyncValue('state', state);
+
+// Directory handles can be stored, but the browser asks for permission again after a reload
+export const loadSyncFolder = () => loadSyncValue<FileSystemDirectoryHandle>('folder');
+export const saveSyncFolder = (handle: FileSystemDirectoryHandle) => saveSyncValue('folder', handle);
+
+/**
+ * Drops the whole database (used by "Reset Application").
+ */
+export const clearAllData = async () => {
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve();
+  });
+};
@@ -0,0 +1,28 @@
+import { SyncProviderId } from "../types";
+
+/**
+ * A remote store that sync reads and writes files in. Paths are relative to the
+ * store's root and '/' separated, e.g. `meetings/<id>.json`; adapters create
+ * folders as needed. The sync engine only needs whole-file reads and writes.
+ */
+export interface SyncAdapter {
+  id: SyncProviderId;
+  // null if the file doesn't exist
+  readFile(path: string): Promise<Blob | null>;
+  writeFile(path: string, data: Blob): Promise<void>;
+  // Deleting a missing file is not an error
+  deleteFile(path: string): Promise<void>;
+}
+
+export class SyncError extends Error {
+  constructor(public provider: SyncProviderId, message: string, public status?: number) {
+    super(`${provider}${status ? ` (${status})` : ''}: ${message}`);
+    this.name = 'SyncError';
+  }
+}
+
+export const SYNC_PROVIDER_LABELS: Record<SyncProviderId, string> = {
+  googleDrive: 'Google Drive',
+  webdav: 'WebDAV',
+  localFolder: 'Local folder',
+};
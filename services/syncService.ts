@@ -0,0 +1,435 @@
+import { Agent, ChatSession, MeetingData, MeetingStatus, SyncConflictStrategy, UserSettings } from "../types";
+import { AGENT_SCHEMA, CHAT_SESSION_SCHEMA, MEETING_SCHEMA, RecordSchema, canonicalJson, fillMeetingLists, findProblem, isObject, meetingContent } from "./recordSchema";
+import { SyncRecordState, SyncState } from "./storageService";
+import { SyncAdapter, SyncError } from "./syncAdapter";
+import { createGoogleDriveAdapter } from "./googleDriveSync";
+import { createLocalFolderAdapter } from "./localFolderSync";
+import { createWebDavAdapter } from "./webdavSync";
+import { crc32 } from "./zip";
+
+// Remote layout: manifest.json lists every record with its hash and modification time;
+// records live in meetings/<id>.json, audio/<id>, agents/<id>.json and chats/<id>.json
+const MANIFEST_PATH = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+type SyncKind = 'meeting' | 'audio' | 'agent' | 'chat';
+
+interface RemoteRecord {
+  hash: string;
+  modifiedAt: number;
+  deleted?: boolean;
+  mimeType?: string; // audio only
+}
+
+interface RemoteManifest {
+  version: number;
+  records: Record<string, RemoteRecord>;
+}
+
+// What sync needs from the app's current data
+export interface SyncSnapshot {
+  meetings: MeetingData[];
+  agents: Agent[];
+  chatSessions: ChatSession[];
+}
+
+export type SyncChoice = 'local' | 'remote';
+
+export interface SyncConflict {
+  key: string;
+  kind: SyncKind;
+  label: string;
+  localModifiedAt: number;
+  remoteModifiedAt: number;
+  localDeleted: boolean;
+  remoteDeleted: boolean;
+}
+
+// A remote record that couldn't be applied; it is tried again on every sync
+export interface SyncSkipped {
+  key: string;
+  label: string;
+  reason: string;
+}
+
+// Remote changes for the app to apply
+export interface SyncChanges {
+  meetings: MeetingData[];
+  audio: { meetingId: string; blob: Blob }[];
+  agents: Agent[];
+  chatSessions: ChatSession[];
+  deleted: { meetings: string[]; agents: string[]; chatSessions: string[] };
+}
+
+export interface SyncResult {
+  state: SyncState;
+  changes: SyncChanges;
+  conflicts: SyncConflict[];
+  skipped: SyncSkipped[];
+  pushed: number;
+  pulled: number;
+}
+
+// What the app shows about sync
+export interface SyncStatus {
+  phase: 'idle' | 'syncing' | 'error';
+  lastSyncAt?: number;
+  error?: string;
+  conflicts: SyncConflict[];
+  skipped: SyncSkipped[];
+  progress?: { done: number; total: number };
+}
+
+export interface SyncOptions {
+  strategy: SyncConflictStrategy;
+  resolutions: Record<string, SyncChoice>; // by record key, chosen by the user
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface LocalRecord {
+  kind: SyncKind;
+  id: string;
+  label: string;
+  hash: string;
+  modifiedAt: number; // best guess for records sync hasn't seen before
+  mimeType?: string;
+  read: () => Blob;
+}
+
+const recordKey = (kind: SyncKind, id: string) => `${kind}:${id}`;
+
+const parseKey = (key: string) => {
+  const separator = key.indexOf(':');
+  return { kind: key.slice(0, separator) as SyncKind, id: key.slice(separator + 1) };
+};
+
+const recordPath = (kind: SyncKind, id: string) => kind === 'audio' ? `audio/${id}` : `${kind}s/${id}.json`;
+
+const hashJson = (value: unknown) => crc32(new TextEncoder().encode(canonicalJson(value))).toString(16);
+
+const jsonBlob = (value: unknown) => new Blob([JSON.stringify(value)], { type: 'application/json' });
+
+// Meetings being recorded or processed change constantly; they sync once they settle
+const isBusy = (meeting: MeetingData) =>
+  meeting.status === MeetingStatus.RECORDING || meeting.status === MeetingStatus.PROCESSING;
+
+const collectLocalRecords = (snapshot: SyncSnapshot) => {
+  const records = new Map<string, LocalRecord>();
+  const busy = new Set<string>();
+  const add = (record: LocalRecord) => records.set(recordKey(record.kind, record.id), record);
+
+  snapshot.meetings.forEach(m => {
+    if (isBusy(m)) {
+      busy.add(recordKey('meeting', m.id));
+      busy.add(recordKey('audio', m.id));
+      return;
+    }
+    const content = { ...meetingContent(m), error: undefined };
+    add({ kind: 'meeting', id: m.id, label: m.title, hash: hashJson(content), modifiedAt: m.date, read: () => jsonBlob(content) });
+    const audio = m.audioBlob;
+    // Recordings don't change once made; size and type tell them apart without reading gigabytes
+    if (audio) add({ kind: 'audio', id: m.id, label: `Recording of ${m.title}`, hash: `${audio.size}:${audio.type}`, modifiedAt: m.date, mimeType: audio.type, read: () => audio });
+  });
+  snapshot.agents.forEach(a =>
+    add({ kind: 'agent', id: a.id, label: `${a.icon} ${a.name}`, hash: hashJson(a), modifiedAt: 0, read: () => jsonBlob(a) })
+  );
+  snapshot.chatSessions.forEach(s =>
+    add({ kind: 'chat', id: s.id, label: s.title, hash: hashJson(s), modifiedAt: s.updatedAt, read: () => jsonBlob(s) })
+  );
+  return { records, busy };
+};
+
+/**
+ * Notes what changed locally since the last call: changed records get a new hash and
+ * modification time, records that disappeared become tombstones so the deletion syncs.
+ */
+export const trackChanges = (state: SyncState, snapshot: SyncSnapshot, now: number = Date.now()): SyncState => {
+  const { records, busy } = collectLocalRecords(snapshot);
+  const tracked: Record<string, SyncRecordState> = { ...state.records };
+
+  records.forEach((record, key) => {
+    const previous = tracked[key];
+    if (previous && previous.hash === record.hash && !previous.deleted) return;
+    tracked[key] = { ...previous, hash: record.hash, modifiedAt: previous ? now : record.modifiedAt, deleted: undefined };
+  });
+  Object.entries(tracked).forEach(([key, entry]) => {
+    if (!records.has(key) && !busy.has(key) && !entry.deleted) {
+      tracked[key] = { ...entry, hash: '', deleted: true, modifiedAt: now };
+    }
+  });
+
+  return { ...state, records: tracked };
+};
+
+/**
+ * Tracking state for a remote. Switching remotes forgets what was synced, so the
+ * first sync with the new one compares everything.
+ */
+export const stateForTarget = (state: SyncState | undefined, target: string): SyncState => {
+  if (!state) return { target, records: {} };
+  if (state.target === target) return state;
+  const records = Object.fromEntries(Object.entries(state.records)
+    .filter(([, entry]) => !entry.deleted)
+    .map(([key, { syncedHash, ...entry }]) => [key, entry]));
+  return { target, records };
+};
+
+const readManifest = async (adapter: SyncAdapter): Promise<RemoteManifest> => {
+  const file = await adapter.readFile(MANIFEST_PATH);
+  if (!file) return { version: MANIFEST_VERSION, records: {} };
+  const manifest = JSON.parse(await file.text());
+  if (manifest.version > MANIFEST_VERSION) {
+    throw new SyncError(adapter.id, "The remote was written by a newer version of the app.");
+  }
+  return manifest;
+};
+
+const RECORD_SCHEMAS: Partial<Record<SyncKind, RecordSchema>> = {
+  meeting: MEETING_SCHEMA,
+  agent: AGENT_SCHEMA,
+  chat: CHAT_SESSION_SCHEMA,
+};
+
+// Which side wins when both changed, or undefined to leave it to the user
+const resolveConflict = (key: string, local: SyncRecordState, remote: RemoteRecord, options: SyncOptions): SyncChoice | undefined => {
+  if (options.resolutions[key]) return options.resolutions[key];
+  if (options.strategy === 'ask') return undefined;
+  return local.modifiedAt >= remote.modifiedAt ? 'local' : 'remote';
+};
+
+/**
+ * Two-way sync with a remote: pushes local changes, pulls remote ones and reports
+ * conflicts (both sides changed since the last sync) it wasn't allowed to resolve.
+ * Local data isn't touched; the returned changes are for the app to apply.
+ */
+export const runSync = async (adapter: SyncAdapter, snapshot: SyncSnapshot, state: SyncState, options: SyncOptions): Promise<SyncResult> => {
+  const tracked = trackChanges(state, snapshot);
+  const { records: local, busy } = collectLocalRecords(snapshot);
+  const remote = await readManifest(adapter);
+
+  const toPush: string[] = [];
+  const toPull: string[] = [];
+  const conflicts: SyncConflict[] = [];
+  const records = { ...tracked.records };
+
+  const keys = new Set([...Object.keys(records), ...Object.keys(remote.records)]);
+  keys.forEach(key => {
+    if (busy.has(key)) return;
+    const ours = records[key];
+    const theirs = remote.records[key];
+    if (ours && theirs && ours.hash === theirs.hash) {
+      records[key] = { ...ours, syncedHash: ours.hash };
+      return;
+    }
+
+    // A record missing from the manifest counts as changed here, so a wiped remote is filled again
+    const localChanged = !!ours && (ours.hash !== ours.syncedHash || !theirs);
+    const remoteChanged = !!theirs && theirs.hash !== ours?.syncedHash;
+    if (localChanged && !remoteChanged) toPush.push(key);
+    else if (remoteChanged && !localChanged) toPull.push(key);
+    else if (localChanged && remoteChanged) {
+      const choice = resolveConflict(key, ours, theirs, options);
+      if (choice === 'local') toPush.push(key);
+      else if (choice === 'remote') toPull.push(key);
+      else {
+        const { kind, id } = parseKey(key);
+        conflicts.push({
+          key,
+          kind,
+          label: local.get(key)?.label || id,
+          localModifiedAt: ours.modifiedAt,
+          remoteModifiedAt: theirs.modifiedAt,
+          localDeleted: !!ours.deleted,
+          remoteDeleted: !!theirs.deleted,
+        });
+      }
+    }
+  });
+
+  const total = toPush.length + toPull.length;
+  let done = 0;
+  const step = () => options.onProgress?.(++done, total);
+  const pushed: Record<string, RemoteRecord> = {};
+
+  for (const key of toPush) {
+    const { kind, id } = parseKey(key);
+    const ours = records[key];
+    if (ours.deleted) {
+      await adapter.deleteFile(recordPath(kind, id));
+      pushed[key] = { hash: '', modifiedAt: ours.modifiedAt, deleted: true };
+    } else {
+      const record = local.get(key)!;
+      await adapter.writeFile(recordPath(kind, id), record.read());
+      pushed[key] = { hash: ours.hash, modifiedAt: ours.modifiedAt, mimeType: record.mimeType };
+    }
+    records[key] = { ...ours, syncedHash: ours.hash };
+    step();
+  }
+
+  const changes: SyncChanges = { meetings: [], audio: [], agents: [], chatSessions: [], deleted: { meetings: [], agents: [], chatSessions: [] } };
+  const skipped: SyncSkipped[] = [];
+  // Audio last, so it is only taken once its meeting is here or pulled along with it
+  const pullOrder = [...toPull.filter(key => parseKey(key).kind !== 'audio'), ...toPull.filter(key => parseKey(key).kind === 'audio')];
+  for (const key of pullOrder) {
+    const { kind, id } = parseKey(key);
+    const theirs = remote.records[key];
+    step();
+
+    if (theirs.deleted) {
+      if (kind === 'meeting') changes.deleted.meetings.push(id);
+      if (kind === 'agent') changes.deleted.agents.push(id);
+      if (kind === 'chat') changes.deleted.chatSessions.push(id);
+      records[key] = { hash: '', modifiedAt: theirs.modifiedAt, deleted: true, syncedHash: '' };
+      continue;
+    }
+
+    // Audio can't be attached without its meeting; it stays pending until the meeting arrives
+    if (kind === 'audio' && !theirs.deleted && !local.has(recordKey('meeting', id)) && !changes.meetings.some(m => m.id === id)) continue;
+
+    const file = await adapter.readFile(recordPath(kind, id));
+    if (!file) continue; // listed but not uploaded (yet); try again next time
+    if (kind === 'audio') {
+      changes.audio.push({ meetingId: id, blob: file.slice(0, file.size, theirs.mimeType || file.type) });
+    } else {
+      let record: unknown;
+      try {
+        record = JSON.parse(await file.text());
+      } catch {
+        skipped.push({ key, label: id, reason: "not valid JSON" });
+        continue;
+      }
+      // Other devices may still write meetings without tag lists
+      if (kind === 'meeting') record = fillMeetingLists(record);
+      const problem = findProblem(record, RECORD_SCHEMAS[kind]!);
+      if (problem) {
+        const named = isObject(record) ? record.title ?? record.name : undefined;
+        skipped.push({ key, label: typeof named === 'string' ? named : id, reason: problem });
+        continue;
+      }
+      // The shape was checked above
+      if (kind === 'meeting') changes.meetings.push(record as MeetingData);
+      if (kind === 'agent') changes.agents.push(record as Agent);
+      if (kind === 'chat') changes.chatSessions.push(record as ChatSession);
+    }
+    records[key] = { hash: theirs.hash, modifiedAt: theirs.modifiedAt, syncedHash: theirs.hash };
+  }
+
+  if (toPush.length > 0) {
+    // Re-read right before writing, so entries another device wrote meanwhile survive
+    const latest = await readManifest(adapter);
+    await adapter.writeFile(MANIFEST_PATH, jsonBlob({ version: MANIFEST_VERSION, records: { ...latest.records, ...pushed } }));
+  }
+
+  return {
+    state: { ...tracked, records, lastSyncAt: Date.now() },
+    changes,
+    conflicts,
+    skipped,
+    pushed: toPush.length,
+    pulled: toPull.length - skipped.length,
+  };
+};
+
+/**
+ * Leaves out pulled changes to records that were edited locally while the sync ran, so
+ * they aren't overwritten. Their tracking is put back, so the next sync compares them
+ * again and reports the conflict.
+ */
+export const withoutLocalEdits = (result: SyncResult, before: SyncSnapshot, after: SyncSnapshot, previous: SyncState): SyncResult => {
+  const hashesBefore = collectLocalRecords(before).records;
+  const hashesAfter = collectLocalRecords(after).records;
+  const edited = (kind: SyncKind, id: string) => {
+    const key = recordKey(kind, id);
+    return hashesBefore.get(key)?.hash !== hashesAfter.get(key)?.hash;
+  };
+  const meetingKept = (id: string) => !edited('meeting', id);
+
+  const { changes } = result;
+  const kept: SyncChanges = {
+    meetings: changes.meetings.filter(m => meetingKept(m.id)),
+    // A new meeting's audio waits for the meeting
+    audio: changes.audio.filter(a => !edited('audio', a.meetingId) && (meetingKept(a.meetingId) || hashesAfter.has(recordKey('meeting', a.meetingId)))),
+    agents: changes.agents.filter(a => !edited('agent', a.id)),
+    chatSessions: changes.chatSessions.filter(s => !edited('chat', s.id)),
+    deleted: {
+      meetings: changes.deleted.meetings.filter(meetingKept),
+      agents: changes.deleted.agents.filter(id => !edited('agent', id)),
+      chatSessions: changes.deleted.chatSessions.filter(id => !edited('chat', id)),
+    },
+  };
+
+  const dropped = [
+    ...changes.meetings.filter(m => !kept.meetings.includes(m)).map(m => recordKey('meeting', m.id)),
+    ...changes.audio.filter(a => !kept.audio.includes(a)).map(a => recordKey('audio', a.meetingId)),
+    ...changes.agents.filter(a => !kept.agents.includes(a)).map(a => recordKey('agent', a.id)),
+    ...changes.chatSessions.filter(s => !kept.chatSessions.includes(s)).map(s => recordKey('chat', s.id)),
+    ...changes.deleted.meetings.filter(id => !kept.deleted.meetings.includes(id)).map(id => recordKey('meeting', id)),
+    ...changes.deleted.agents.filter(id => !kept.deleted.agents.includes(id)).map(id => recordKey('agent', id)),
+    ...changes.deleted.chatSessions.filter(id => !kept.deleted.chatSessions.includes(id)).map(id => recordKey('chat', id)),
+  ];
+  if (dropped.length === 0) return result;
+
+  const records = { ...result.state.records };
+  dropped.forEach(key => {
+    if (previous.records[key]) records[key] = previous.records[key];
+    else delete records[key];
+  });
+  return { ...result, state: { ...result.state, records }, changes: kept, pulled: result.pulled - dropped.length };
+};
+
+/**
+ * A local list with pulled records applied: changed ones replaced, new ones appended
+ * and deleted ones removed.
+ */
+export const applyRecordChanges = <T extends { id: string }>(records: T[], pulled: T[], deleted: string[]): T[] => {
+  const pulledById = new Map(pulled.map(r => [r.id, r]));
+  const removed = new Set(deleted);
+  const known = new Set(records.map(r => r.id));
+  return [
+    ...records.filter(r => !removed.has(r.id)).map(r => pulledById.get(r.id) ?? r),
+    ...pulled.filter(r => !known.has(r.id)),
+  ];
+};
+
+// What the adapters need beyond the settings: a Drive token source and the chosen folder
+export interface SyncConnection {
+  getGoogleToken: () => Promise<string>;
+  folder: FileSystemDirectoryHandle | null;
+}
+
+/**
+ * Identifies the remote the settings point at, so switching remotes is noticed.
+ */
+export const getSyncTarget = (settings: UserSettings, folder: FileSystemDirectoryHandle | null) => {
+  const sync = settings.sync!;
+  if (sync.provider === 'webdav') return `webdav:${sync.webdavUrl?.replace(/\/+$/, '')}`;
+  if (sync.provider === 'localFolder') return `localFolder:${folder?.name}`;
+  return 'googleDrive';
+};
+
+export const createSyncAdapter = (settings: UserSettings, connection: SyncConnection): SyncAdapter => {
+  const sync = settings.sync!;
+  switch (sync.provider) {
+    case 'googleDrive':
+      if (!sync.googleClientId) throw new SyncError('googleDrive', "Enter the OAuth client ID first.");
+      if (!settings.googleDriveConnected) throw new SyncError('googleDrive', "Connect Google Drive first.");
+      return createGoogleDriveAdapter(connection.getGoogleToken);
+    case 'webdav':
+      if (!sync.webdavUrl) throw new SyncError('webdav', "Enter the server URL first.");
+      return createWebDavAdapter({ url: sync.webdavUrl, username: sync.webdavUsername, password: settings.apiKeys.webdavPassword });
+    case 'localFolder':
+      if (!connection.folder) throw new SyncError('localFolder', "Choose a folder first.");
+      return createLocalFolderAdapter(connection.folder);
+  }
+};
+
+// "just now", "5 min ago", then the time or date
+export const formatLastSync = (timestamp: number, now: number = Date.now()) => {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date(now).toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
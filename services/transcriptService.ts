@@ -0,0 +1,117 @@
+import { MeetingData, TranscriptSegment } from "../types";
+
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+  segments: TranscriptSegment[];
+}
+
+// A numbered stretch of transcript that answers can cite
+export interface TranscriptPassage {
+  number: number; // 1-based
+  speaker?: string;
+  start?: number;
+  text: string;
+}
+
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hrs = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number) => `${n < 10 ? '0' : ''}${n}`;
+  return hrs > 0 ? `${hrs}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`;
+};
+
+/**
+ * Flat transcript text, one line per segment. Kept on MeetingData for search and refinement prompts.
+ */
+export const segmentsToText = (segments: TranscriptSegment[]) =>
+  segments.map(s => `${s.speaker}: ${s.text}`).join('\n');
+
+/**
+ * Splits a meeting's transcript into numbered passages: one per segment, or one
+ * per line for transcripts without timestamps.
+ */
+export const getTranscriptPassages = (meeting: MeetingData): TranscriptPassage[] => {
+  if (meeting.segments?.length) {
+    return meeting.segments.map((s, i) => ({ number: i + 1, speaker: s.speaker, start: s.start, text: s.text }));
+  }
+  return (meeting.transcription || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((text, i) => ({ number: i + 1, text }));
+};
+
+export interface TranscriptSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits a segment into sentences. Transcripts only time whole segments, so each
+ * sentence's start and end are interpolated from its position in the segment's text.
+ */
+export const splitIntoSentences = (segment: TranscriptSegment): TranscriptSentence[] => {
+  const { text } = segment;
+  const pieces = typeof Intl.Segmenter === 'function'
+    ? Array.from(new Intl.Segmenter(undefined, { granularity: 'sentence' }).segment(text))
+    : [{ segment: text, index: 0 }];
+  const timeAt = (offset: number) =>
+    segment.start + (text.length > 0 ? (offset / text.length) * (segment.end - segment.start) : 0);
+
+  return pieces
+    .filter(piece => piece.segment.trim())
+    .map(piece => ({
+      text: piece.segment.trim(),
+      start: timeAt(piece.index),
+      end: timeAt(piece.index + piece.segment.length),
+    }));
+};
+
+/**
+ * Merges consecutive segments of the same speaker into turns for display.
+ */
+export const groupSegmentsBySpeaker = (segments: TranscriptSegment[]): SpeakerTurn[] => {
+  const turns: SpeakerTurn[] = [];
+  segments.forEach(segment => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.segments.push(segment);
+      last.end = segment.end;
+    } else {
+      turns.push({ speaker: segment.speaker, start: segment.start, end: segment.end, segments: [segment] });
+    }
+  });
+  return turns;
+};
+
+export const getSpeakers = (segments: TranscriptSegment[]) =>
+  Array.from(new Set(segments.map(s => s.speaker)));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Renames a speaker across the transcript, the report and the meeting's Q&A.
+ * Labels only match whole words, so renaming "Speaker 1" leaves "Speaker 10" alone.
+ */
+export const renameSpeaker = (meeting: MeetingData, from: string, to: string): Partial<MeetingData> => {
+  const segments = (meeting.segments || []).map(s => s.speaker === from ? { ...s, speaker: to } : s);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(from)}(?![\\p{L}\\p{N}])`, 'gu');
+
+  return {
+    segments,
+    transcription: segmentsToText(segments),
+    // A function, so `$&` or `$1` in the new name is inserted as typed
+    report: meeting.report?.replace(pattern, () => to),
+    actionItems: meeting.actionItems?.map(a => a.owner === from ? { ...a, owner: to } : a),
+    questions: meeting.questions?.map(q => ({
+      ...q,
+      answer: q.answer.replace(pattern, () => to),
+      citations: q.citations.map(c => c.speaker === from ? { ...c, speaker: to } : c),
+    })),
+  };
+};
@@ -0,0 +1,128 @@
+import { MeetingData, MeetingStatus, VaultSource } from "../types";
+import { EmbeddedChunk, loadEmbeddedChunks, loadEmbeddingSignatures, replaceEmbeddedChunks } from "./storageService";
+import { Embedder, cosineSimilarity } from "./embeddingService";
+import { crc32 } from "./zip";
+
+// Chunks are cut at line boundaries once they pass this many characters
+const CHUNK_SIZE = 800;
+// Texts sent to the embedder per request
+const EMBED_BATCH_SIZE = 32;
+// Passages handed to the model for one vault question
+const DEFAULT_RESULT_LIMIT = 8;
+
+type MeetingChunk = Pick<EmbeddedChunk, 'field' | 'start' | 'text'>;
+
+/**
+ * Identifies the indexed content of a meeting, so unchanged meetings aren't embedded again.
+ */
+const meetingSignature = (meeting: MeetingData, embedderId: string) => {
+  const content = [embedderId, meeting.title, meeting.report || '', meeting.transcription || ''].join('\u0000');
+  return crc32(new TextEncoder().encode(content)).toString(16);
+};
+
+const packLines = (lines: { text: string; start?: number }[]): { text: string; start?: number }[] => {
+  const chunks: { text: string; start?: number }[] = [];
+  let current: { text: string; start?: number } | null = null;
+  for (const line of lines) {
+    if (current && current.text.length + line.text.length > CHUNK_SIZE) {
+      chunks.push(current);
+      current = null;
+    }
+    current = current ? { ...current, text: `${current.text}\n${line.text}` } : { ...line };
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * Splits a meeting into the passages that get embedded: transcript stretches
+ * (with their start time when known) and report sections.
+ */
+export const chunkMeeting = (meeting: MeetingData): MeetingChunk[] => {
+  const transcriptLines = meeting.segments?.length
+    ? meeting.segments.map(s => ({ text: `${s.speaker}: ${s.text}`, start: s.start }))
+    : (meeting.transcription || '').split('\n').filter(l => l.trim()).map(text => ({ text }));
+
+  // Report sections start at headings, so a chunk doesn't straddle two topics
+  const reportSections: string[][] = [];
+  (meeting.report || '').split('\n').forEach(line => {
+    if (/^#{1,6}\s/.test(line) || reportSections.length === 0) reportSections.push([]);
+    if (line.trim()) reportSections[reportSections.length - 1].push(line);
+  });
+
+  return [
+    ...reportSections.flatMap(section => packLines(section.map(text => ({ text })))).map(c => ({ field: 'report' as const, text: c.text })),
+    ...packLines(transcriptLines).map(c => ({ field: 'transcript' as const, start: c.start, text: c.text })),
+  ].filter(c => c.text.trim());
+};
+
+// Title and date go into the embedded text so questions like "the budget meeting in May" match
+const embeddingText = (meeting: MeetingData, chunk: MeetingChunk) =>
+  `${meeting.title} (${new Date(meeting.date).toISOString().slice(0, 10)})\n${chunk.text}`;
+
+/**
+ * Brings the stored index in line with the meetings: embeds new and changed
+ * meetings and drops deleted ones. Only finished meetings are indexed.
+ */
+export const syncVaultIndex = async (meetings: MeetingData[], embedder: Embedder) => {
+  const indexable = meetings.filter(m => m.status === MeetingStatus.COMPLETED && (m.report || m.transcription));
+  const storedSignatures = await loadEmbeddingSignatures();
+
+  const wanted = new Map(indexable.map(m => [m.id, meetingSignature(m, embedder.id)]));
+  const removed = Array.from(storedSignatures.keys()).filter(id => !wanted.has(id));
+  if (removed.length > 0) await replaceEmbeddedChunks(removed, []);
+
+  const changed = indexable.filter(m => storedSignatures.get(m.id) !== wanted.get(m.id));
+  // One meeting at a time, so work done before a failure (offline, quota) is kept
+  for (const meeting of changed) {
+    const chunks = chunkMeeting(meeting);
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      vectors.push(...await embedder.embed({ texts: batch.map(c => embeddingText(meeting, c)), kind: 'document' }));
+    }
+
+    await replaceEmbeddedChunks([meeting.id], chunks.map((chunk, i) => ({
+      ...chunk,
+      id: `${meeting.id}:${chunk.field}:${i}`,
+      meetingId: meeting.id,
+      vector: Float32Array.from(vectors[i]),
+      embedderId: embedder.id,
+      signature: wanted.get(meeting.id)!,
+    })));
+  }
+};
+
+/**
+ * Finds the meeting passages most similar to a question, numbered for citing.
+ */
+export const searchVault = async (
+  query: string,
+  meetings: MeetingData[],
+  embedder: Embedder,
+  limit: number = DEFAULT_RESULT_LIMIT
+): Promise<VaultSource[]> => {
+  const meetingsById = new Map(meetings.map(m => [m.id, m]));
+  const chunks = (await loadEmbeddedChunks()).filter(c => c.embedderId === embedder.id && meetingsById.has(c.meetingId));
+  if (chunks.length === 0) return [];
+
+  const [queryVector] = await embedder.embed({ texts: [query], kind: 'query' });
+
+  return chunks
+    .map(chunk => ({ chunk, score: cosineSimilarity(queryVector, chunk.vector) }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk }, i) => {
+      const meeting = meetingsById.get(chunk.meetingId)!;
+      return {
+        number: i + 1,
+        meetingId: meeting.id,
+        meetingTitle: meeting.title,
+        meetingDate: meeting.date,
+        field: chunk.field,
+        start: chunk.start,
+        text: chunk.text,
+      };
+    });
+};
@@ -0,0 +1,63 @@
+import { SyncAdapter, SyncError } from "./syncAdapter";
+
+export interface WebDavConfig {
+  url: string;
+  username?: string;
+  password?: string;
+}
+
+/**
+ * Sync store on a WebDAV server (Nextcloud, ownCloud, Synology, ...). The server must
+ * allow cross-origin requests from the app.
+ */
+export const createWebDavAdapter = (config: WebDavConfig): SyncAdapter => {
+  const baseUrl = config.url.replace(/\/+$/, '');
+  const credentials = new TextEncoder().encode(`${config.username}:${config.password || ''}`);
+  const headers: Record<string, string> = config.username
+    ? { Authorization: `Basic ${btoa(Array.from(credentials, b => String.fromCharCode(b)).join(''))}` }
+    : {};
+  const urlFor = (path: string) => `${baseUrl}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+  const request = async (method: string, path: string, body?: Blob) => {
+    const response = await fetch(urlFor(path), { method, headers, body });
+    if (!response.ok && response.status !== 404) {
+      throw new SyncError('webdav', response.statusText || `${method} ${path} failed`, response.status);
+    }
+    return response;
+  };
+
+  // Creates the folders above a path, one level at a time (MKCOL isn't recursive)
+  const createFolders = async (path: string) => {
+    const parts = path.split('/').slice(0, -1);
+    for (let i = 1; i <= parts.length; i++) {
+      const response = await fetch(urlFor(parts.slice(0, i).join('/')), { method: 'MKCOL', headers });
+      // 405: the folder exists already
+      if (!response.ok && response.status !== 405) {
+        throw new SyncError('webdav', `Could not create folder ${parts.slice(0, i).join('/')}`, response.status);
+      }
+    }
+  };
+
+  return {
+    id: 'webdav',
+
+    readFile: async (path) => {
+      const response = await request('GET', path);
+      return response.status === 404 ? null : response.blob();
+    },
+
+    writeFile: async (path, data) => {
+      let response = await fetch(urlFor(path), { method: 'PUT', headers, body: data });
+      // 409: a parent folder is missing
+      if (response.status === 409) {
+        await createFolders(path);
+        response = await fetch(urlFor(path), { method: 'PUT', headers, body: data });
+      }
+      if (!response.ok) throw new SyncError('webdav', response.statusText || `PUT ${path} failed`, response.status);
+    },
+
+    deleteFile: async (path) => {
+      await request('DELETE', path);
+    },
+  };
+};
@@ -0,0 +1,289 @@
+// Minimal ZIP writer (store only, no compression) and reader. Enough for DOCX containers,
+// bundling exports and archive backups; the browser has no built-in way to handle archives.
+
+export interface ZipEntry {
+  name: string; // path inside the archive, '/' separated
+  data: Uint8Array | string;
+  date?: Date;
+}
+
+// Entry whose data is only read through streams, for archives too large to hold in memory
+export interface ZipBlobEntry {
+  name: string;
+  data: Blob;
+  date?: Date;
+}
+
+// An entry of an archive being read. `data` is a slice of the archive, not yet read.
+export interface ZipFileEntry {
+  name: string;
+  size: number;
+  crc: number;
+  data: Blob;
+}
+
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Continues a CRC-32 over more data; start with 0 and pass the previous result back in.
+ */
+export const crc32 = (data: Uint8Array, crc: number = 0): number => {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * CRC-32 of a blob, read chunk by chunk. `onBytes` gets the size of each chunk read.
+ */
+export const crc32Blob = async (blob: Blob, onBytes?: (bytes: number) => void): Promise<number> => {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+    onBytes?.(value.length);
+  }
+};
+
+// Beyond these, offsets and counts move to ZIP64 records
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+// MS-DOS date/time as stored in ZIP headers (local time, 2-second resolution)
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+interface HeaderInfo {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  date: Date;
+  offset: number; // of the local header
+}
+
+const localHeader = ({ name, crc, size, date }: HeaderInfo) => {
+  const { time, date: day } = dosDateTime(date);
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);  // local file header signature
+  local.setUint16(4, 20, true);          // version needed
+  local.setUint16(6, 0x0800, true);      // flags: UTF-8 names
+  local.setUint16(8, 0, true);           // method: stored
+  local.setUint16(10, time, true);
+  local.setUint16(12, day, true);
+  local.setUint32(14, crc, true);
+  local.setUint32(18, size, true);
+  local.setUint32(22, size, true);
+  local.setUint16(26, name.length, true);
+  local.setUint16(28, 0, true);          // extra field length
+  return [new Uint8Array(local.buffer), name];
+};
+
+const centralHeader = ({ name, crc, size, date, offset }: HeaderInfo) => {
+  const { time, date: day } = dosDateTime(date);
+  // Entries that start past 4 GB keep their offset in a ZIP64 extra field
+  const zip64 = offset >= MAX_UINT32;
+  const extra = new DataView(new ArrayBuffer(zip64 ? 12 : 0));
+  if (zip64) {
+    extra.setUint16(0, 0x0001, true);    // ZIP64 extended information
+    extra.setUint16(2, 8, true);
+    extra.setBigUint64(4, BigInt(offset), true);
+  }
+
+  const header = new DataView(new ArrayBuffer(46));
+  header.setUint32(0, 0x02014b50, true); // central directory signature
+  header.setUint16(4, zip64 ? 45 : 20, true); // version made by
+  header.setUint16(6, zip64 ? 45 : 20, true); // version needed
+  header.setUint16(8, 0x0800, true);
+  header.setUint16(10, 0, true);
+  header.setUint16(12, time, true);
+  header.setUint16(14, day, true);
+  header.setUint32(16, crc, true);
+  header.setUint32(20, size, true);
+  header.setUint32(24, size, true);
+  header.setUint16(28, name.length, true);
+  header.setUint16(30, extra.byteLength, true);
+  header.setUint32(42, zip64 ? MAX_UINT32 : offset, true); // local header offset
+  return [new Uint8Array(header.buffer), name, new Uint8Array(extra.buffer)];
+};
+
+const endOfCentralDirectory = (count: number, centralSize: number, centralOffset: number): Uint8Array[] => {
+  const parts: Uint8Array[] = [];
+  const zip64 = count >= MAX_UINT16 || centralOffset + centralSize >= MAX_UINT32;
+  if (zip64) {
+    const record = new DataView(new ArrayBuffer(56));
+    record.setUint32(0, 0x06064b50, true); // ZIP64 end of central directory signature
+    record.setBigUint64(4, 44n, true);     // size of the rest of the record
+    record.setUint16(12, 45, true);
+    record.setUint16(14, 45, true);
+    record.setBigUint64(24, BigInt(count), true);
+    record.setBigUint64(32, BigInt(count), true);
+    record.setBigUint64(40, BigInt(centralSize), true);
+    record.setBigUint64(48, BigInt(centralOffset), true);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, 0x07064b50, true); // ZIP64 end of central directory locator
+    locator.setBigUint64(8, BigInt(centralOffset + centralSize), true);
+    locator.setUint32(16, 1, true);         // total number of disks
+    parts.push(new Uint8Array(record.buffer), new Uint8Array(locator.buffer));
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);      // end of central directory signature
+  end.setUint16(8, Math.min(count, MAX_UINT16), true);
+  end.setUint16(10, Math.min(count, MAX_UINT16), true);
+  end.setUint32(12, zip64 ? MAX_UINT32 : centralSize, true);
+  end.setUint32(16, zip64 ? MAX_UINT32 : centralOffset, true);
+  parts.push(new Uint8Array(end.buffer));
+  return parts;
+};
+
+const partsSize = (parts: Uint8Array[]) => parts.reduce((sum, part) => sum + part.length, 0);
+
+/**
+ * Builds a ZIP archive. Names are stored as UTF-8.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const info = { name: encoder.encode(entry.name), crc: crc32(data), size: data.length, date: entry.date || new Date(), offset };
+    const local = localHeader(info);
+    parts.push(...local, data);
+    central.push(...centralHeader(info));
+    offset += partsSize(local) + data.length;
+  });
+
+  return new Blob([...parts, ...central, ...endOfCentralDirectory(entries.length, partsSize(central), offset)], { type: 'application/zip' });
+};
+
+/**
+ * Builds a ZIP archive from blobs without reading them into memory: each blob is
+ * streamed once for its checksum and then referenced by the resulting Blob.
+ * Archives may pass 4 GB (ZIP64); single entries may not.
+ */
+export const createZipFromBlobs = async (
+  entries: ZipBlobEntry[],
+  onProgress?: (doneBytes: number, totalBytes: number) => void
+): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const totalBytes = entries.reduce((sum, e) => sum + e.data.size, 0);
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  let doneBytes = 0;
+
+  for (const entry of entries) {
+    if (entry.data.size >= MAX_UINT32) throw new ZipFormatError(`${entry.name} is too large for the archive.`);
+    const crc = await crc32Blob(entry.data, bytes => {
+      doneBytes += bytes;
+      onProgress?.(doneBytes, totalBytes);
+    });
+    const info = { name: encoder.encode(entry.name), crc, size: entry.data.size, date: entry.date || new Date(), offset };
+    const local = localHeader(info);
+    parts.push(...local, entry.data);
+    central.push(...centralHeader(info));
+    offset += partsSize(local) + entry.data.size;
+  }
+
+  return new Blob([...parts, ...central, ...endOfCentralDirectory(entries.length, partsSize(central), offset)], { type: 'application/zip' });
+};
+
+const readView = async (blob: Blob, start: number, length: number) =>
+  new DataView(await blob.slice(start, start + length).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+/**
+ * Locates the central directory: the end record sits in the last 64 KB (after an optional comment).
+ */
+const findCentralDirectory = async (file: Blob) => {
+  const tailStart = Math.max(0, file.size - 22 - MAX_UINT16);
+  const tail = await readView(file, tailStart, file.size - tailStart);
+  let end = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipFormatError("The file is not a ZIP archive.");
+
+  let count = tail.getUint16(end + 10, true);
+  let size = tail.getUint32(end + 12, true);
+  let offset = tail.getUint32(end + 16, true);
+  if (count === MAX_UINT16 || size === MAX_UINT32 || offset === MAX_UINT32) {
+    if (end < 20 || tail.getUint32(end - 20, true) !== 0x07064b50) throw new ZipFormatError("The ZIP64 locator is missing.");
+    const record = await readView(file, readUint64(tail, end - 20 + 8), 56);
+    if (record.getUint32(0, true) !== 0x06064b50) throw new ZipFormatError("The ZIP64 end record is missing.");
+    count = readUint64(record, 32);
+    size = readUint64(record, 40);
+    offset = readUint64(record, 48);
+  }
+  return { count, size, offset };
+};
+
+/**
+ * Lists the entries of an archive. Only the central directory and the local headers
+ * are read; entry data stays in the file until used. Compressed entries are not supported.
+ */
+export const readZip = async (file: Blob): Promise<ZipFileEntry[]> => {
+  const directory = await findCentralDirectory(file);
+  const view = await readView(file, directory.offset, directory.size);
+  const decoder = new TextDecoder();
+  const entries: ZipFileEntry[] = [];
+
+  let pos = 0;
+  for (let i = 0; i < directory.count; i++) {
+    if (view.getUint32(pos, true) !== 0x02014b50) throw new ZipFormatError("The archive's directory is damaged.");
+    const method = view.getUint16(pos + 10, true);
+    const crc = view.getUint32(pos + 16, true);
+    let size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const extraLength = view.getUint16(pos + 30, true);
+    const commentLength = view.getUint16(pos + 32, true);
+    let localOffset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, pos + 46, nameLength));
+
+    // ZIP64 extra field: 64-bit values for whichever fields were maxed out, in this order
+    for (let e = pos + 46 + nameLength; e < pos + 46 + nameLength + extraLength; e += 4 + view.getUint16(e + 2, true)) {
+      if (view.getUint16(e, true) !== 0x0001) continue;
+      let field = e + 4;
+      if (size === MAX_UINT32) { size = readUint64(view, field); field += 8; }
+      if (view.getUint32(pos + 20, true) === MAX_UINT32) field += 8; // compressed size, same as size when stored
+      if (localOffset === MAX_UINT32) localOffset = readUint64(view, field);
+    }
+    pos += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory
+    if (method !== 0) throw new ZipFormatError(`${name} is compressed; only uncompressed archives can be read.`);
+
+    const local = await readView(file, localOffset, 30);
+    if (local.getUint32(0, true) !== 0x04034b50) throw new ZipFormatError(`The header of ${name} is damaged.`);
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.push({ name, size, crc, data: file.slice(dataStart, dataStart + size) });
+  }
+  return entries;
+};
@@ -15,6 +15,30 @@ export interface WebTool {
   icon: string;
 }
 
+export type TemplateFieldType = 'text' | 'list' | 'number' | 'date' | 'boolean' | 'choice';
+
+// An extra value the model extracts from every meeting, e.g. "Risks" or "Customer sentiment"
+export interface TemplateField {
+  key: string;          // property name in the model's output, derived from the first label
+  label: string;
+  type: TemplateFieldType;
+  description?: string; // guidance for the model
+  options?: string[];   // allowed values of 'choice' fields
+}
+
+// How an agent structures its reports: headings in order, plus typed fields
+export interface ReportTemplate {
+  sections: string[];
+  fields: TemplateField[];
+}
+
+export type TemplateFieldValue = string | number | boolean | string[];
+
+// A template field as filled in for one meeting; the definition is copied so later template edits don't change it
+export interface MeetingField extends TemplateField {
+  value: TemplateFieldValue;
+}
+
 export interface Agent {
   id: string;
   name: string;
@@ -24,6 +48,18 @@ export interface Agent {
   provider: ModelProvider;
   modelId: string; // e.g., 'gemini-2.5-flash', 'gpt-4'
   isDefault?: boolean;
+  reportTemplate?: ReportTemplate;
+}
+
+// A meeting passage retrieved to answer a vault chat question
+export interface VaultSource {
+  number: number; // 1-based, as cited in the reply
+  meetingId: string;
+  meetingTitle: string;
+  meetingDate: number;
+  field: 'report' | 'transcript';
+  start?: number; // seconds, for transcript passages with timestamps
+  text: string;
 }
 
 export interface ChatMessage {
@@ -31,6 +67,7 @@ export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  sources?: VaultSource[]; // meeting passages a vault reply was based on
 }
 
 export interface ChatSession {
@@ -39,6 +76,79 @@ export interface ChatSession {
   title: string;
   messages: ChatMessage[];
   updatedAt: number;
+  useVault?: boolean; // answer from the recorded meetings
+}
+
+export interface TranscriptSegment {
+  speaker: string; // e.g. 'Speaker 1', or a real name once renamed
+  start: number;   // seconds from the start of the recording
+  end: number;     // seconds
+  text: string;
+}
+
+export type ActionItemStatus = 'open' | 'done';
+
+export interface ActionItem {
+  id: string;
+  text: string;
+  owner: string;     // empty when unassigned
+  dueDate: string;   // YYYY-MM-DD, empty when there is no deadline
+  meetingId: string; // source meeting
+  status: ActionItemStatus;
+}
+
+// Action item as extracted by the model, before it is attached to a meeting
+export type ExtractedActionItem = Pick<ActionItem, 'text' | 'owner' | 'dueDate'>;
+
+// Progress of a chunked processing run, persisted so a failed run can resume
+export interface ProcessingProgress {
+  stage: 'transcribing' | 'reporting';
+  completedChunks: number;
+  totalChunks: number;
+  segments: TranscriptSegment[]; // stitched transcript of the finished chunks
+  agentId: string;
+  language: string;              // language code the run was started with
+}
+
+export type ReportVersionSource = 'generated' | 'refine' | 'manual' | 'restore';
+
+// A saved state of the report, recorded after every change
+export interface ReportVersion {
+  id: string;
+  report: string;
+  source: ReportVersionSource;
+  detail?: string;  // refine instruction, agent name, what was restored...
+  createdAt: number;
+}
+
+// A transcript passage an answer relies on, copied at answer time so it survives reprocessing
+export interface AnswerCitation {
+  passage: number;  // 1-based passage number the model cited
+  speaker?: string;
+  start?: number;   // seconds, when the transcript has timestamps
+  text: string;
+}
+
+// One exchange of the Q&A about a single meeting
+export interface MeetingQuestion {
+  id: string;
+  question: string;
+  answer: string;   // Markdown with [n] markers referring to the citations
+  citations: AnswerCitation[];
+  agentId: string;
+  createdAt: number;
+}
+
+export type JobState = 'queued' | 'running' | 'failed' | 'cancelled';
+
+// Processing work waiting for or running on a meeting's audio; removed once it succeeds
+export interface ProcessingJob {
+  state: JobState;
+  queuedAt: number;
+  agentId: string;
+  modelId: string;     // may differ from the agent's own model when reprocessing
+  language: string;    // language code
+  keepReport: boolean; // see ReprocessOptions
 }
 
 export interface MeetingData {
@@ -50,8 +160,16 @@ export interface MeetingData {
   tags: string[];         
   suggestedTags: string[]; 
   transcription?: string;
+  segments?: TranscriptSegment[];
   report?: string;        
+  reportVersions?: ReportVersion[]; // oldest first, the last one matches `report`
+  actionItems?: ActionItem[];
+  fields?: MeetingField[];          // filled in from the agent's report template
+  questions?: MeetingQuestion[];    // Q&A about this meeting, oldest first
   language?: string;      
+  progress?: ProcessingProgress;
+  job?: ProcessingJob;
+  error?: string;         // why the last processing run failed
   audioBlob?: Blob;
   audioUrl?: string;
 }
@@ -59,25 +177,74 @@ export interface MeetingData {
 export interface ProcessingResult {
   title: string;
   transcription: string;
+  segments: TranscriptSegment[];
   report: string;
+  actionItems: ExtractedActionItem[];
   suggestedTags: string[];
   language: string;
+  fields?: Record<string, TemplateFieldValue>; // by TemplateField.key, when the agent has a template
+}
+
+// Settings for running a stored recording through the pipeline again
+export interface ReprocessOptions {
+  agentId: string;
+  modelId: string;     // overrides the agent's own model for this run
+  language: string;    // language code, see LANGUAGES
+  keepReport: boolean; // only refresh the transcript, leave report, title and action items as they are
 }
 
 export interface ApiKeys {
   google: string;
   openai: string;
   anthropic: string;
+  webdavPassword?: string; // for syncing; kept here so it shares the keys' protection
+}
+
+// API keys encrypted with a key derived from the user's passphrase (PBKDF2 + AES-GCM), base64 fields
+export interface EncryptedApiKeys {
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+// Where embeddings for the vault index come from; 'local' works offline without a key
+export type EmbeddingProviderId = 'local' | 'google' | 'openai';
+
+export type SyncProviderId = 'googleDrive' | 'webdav' | 'localFolder';
+
+// 'newest' keeps whichever side was modified last; 'ask' leaves conflicts to the user
+export type SyncConflictStrategy = 'newest' | 'ask';
+
+export interface SyncSettings {
+  provider: SyncProviderId;
+  conflictStrategy: SyncConflictStrategy;
+  autoSyncMinutes: number;  // 0 = only when asked
+  googleClientId?: string;  // OAuth client of the Google Cloud project used for Drive
+  webdavUrl?: string;       // folder on the server, e.g. https://cloud.example.com/remote.php/dav/files/me/nexus
+  webdavUsername?: string;
 }
 
 export interface UserSettings {
   googleDriveConnected: boolean;
-  apiKeys: ApiKeys;
+  apiKeys: ApiKeys;                     // empty while encrypted keys are locked
+  encryptedApiKeys?: EncryptedApiKeys;  // set once a passphrase protects the keys
+  autoLockMinutes?: number;             // lock encrypted keys after this much inactivity, 0 = never
+  baseUrls?: Partial<Record<ModelProvider, string>>; // Custom endpoints, e.g. OpenAI-compatible servers
   agents: Agent[];
   webTools: WebTool[];
   activeAgentId: string;
+  embeddingProvider?: EmbeddingProviderId; // defaults to 'local'
+  sync?: SyncSettings;                      // unset while sync is off
 }
 
+export const LANGUAGES = [
+  { code: 'auto', label: 'Auto-Detect' },
+  { code: 'zh-CN', label: 'Chinese (中文)' },
+  { code: 'en-US', label: 'English' },
+  { code: 'ja-JP', label: 'Japanese (日本語)' },
+];
+
 export const DEFAULT_WEB_TOOLS: WebTool[] = [
   {
     id: 'notebookllm',